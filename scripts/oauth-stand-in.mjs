@@ -0,0 +1,358 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for an OAuth-protected MCP server, for exercising the
+ * client's sign-in flow without a real identity provider.
+ *
+ * One process plays both roles:
+ * - authorization server: metadata discovery, dynamic client registration,
+ *   an authorization endpoint with a consent page, and a token endpoint with
+ *   PKCE (S256) and refresh token rotation
+ * - protected MCP server at /mcp (Streamable HTTP, JSON responses) that
+ *   answers 401 with a resource_metadata pointer until a valid token is sent
+ *
+ * Usage: npm run oauth:stand-in
+ *   PORT       listen port (default 3030)
+ *   TOKEN_TTL  access token lifetime in seconds (default 3600); a small value
+ *              makes the client go through a refresh
+ *
+ * State lives in memory only, so restarting the script invalidates every
+ * registered client and token.
+ */
+import { createHash, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 3030;
+const TOKEN_TTL = Number(process.env.TOKEN_TTL) || 3600;
+const ORIGIN = `http://localhost:${PORT}`;
+const MCP_PATH = '/mcp';
+
+const clients = new Map();
+// Authorization requests waiting on the consent page, then issued codes
+const pendingAuthorizations = new Map();
+const codes = new Map();
+const accessTokens = new Map();
+const refreshTokens = new Map();
+
+function randomToken() {
+  return randomBytes(24).toString('base64url');
+}
+
+function log(message) {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+function setCors(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || '*');
+  res.setHeader('Access-Control-Expose-Headers', 'WWW-Authenticate, Mcp-Session-Id');
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendOAuthError(res, status, error, description) {
+  sendJson(res, status, { error, error_description: description });
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function redirectWithParams(res, redirectUri, params) {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) url.searchParams.set(key, value);
+  }
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+}
+
+function issueTokens(clientId) {
+  const accessToken = randomToken();
+  const refreshToken = randomToken();
+  accessTokens.set(accessToken, { clientId, expiresAt: Date.now() + TOKEN_TTL * 1000 });
+  refreshTokens.set(refreshToken, { clientId });
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL,
+    refresh_token: refreshToken,
+  };
+}
+
+// RFC 9728 protected resource metadata, served at the path-aware and root locations
+function handleProtectedResourceMetadata(res) {
+  sendJson(res, 200, {
+    resource: `${ORIGIN}${MCP_PATH}`,
+    authorization_servers: [ORIGIN],
+    bearer_methods_supported: ['header'],
+  });
+}
+
+// RFC 8414 authorization server metadata
+function handleAuthorizationServerMetadata(res) {
+  sendJson(res, 200, {
+    issuer: ORIGIN,
+    authorization_endpoint: `${ORIGIN}/authorize`,
+    token_endpoint: `${ORIGIN}/token`,
+    registration_endpoint: `${ORIGIN}/register`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none'],
+  });
+}
+
+// RFC 7591 dynamic client registration
+async function handleRegister(req, res) {
+  let metadata;
+  try {
+    metadata = JSON.parse(await readBody(req));
+  } catch {
+    return sendOAuthError(res, 400, 'invalid_client_metadata', 'Body must be JSON');
+  }
+  if (!Array.isArray(metadata.redirect_uris) || metadata.redirect_uris.length === 0) {
+    return sendOAuthError(res, 400, 'invalid_redirect_uri', 'redirect_uris is required');
+  }
+
+  const client = {
+    ...metadata,
+    client_id: randomToken(),
+    client_id_issued_at: Math.floor(Date.now() / 1000),
+    token_endpoint_auth_method: 'none',
+  };
+  clients.set(client.client_id, client);
+  log(`registered client ${client.client_id} (${client.client_name || 'unnamed'})`);
+  sendJson(res, 201, client);
+}
+
+function handleAuthorize(url, res) {
+  const params = Object.fromEntries(url.searchParams);
+  const client = clients.get(params.client_id);
+  if (!client) {
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    return res.end('Unknown client_id. Sign out in the client to register again.');
+  }
+  if (!client.redirect_uris.includes(params.redirect_uri)) {
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    return res.end('redirect_uri is not registered for this client.');
+  }
+  if (params.response_type !== 'code') {
+    return redirectWithParams(res, params.redirect_uri, { error: 'unsupported_response_type', state: params.state });
+  }
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    return redirectWithParams(res, params.redirect_uri, {
+      error: 'invalid_request',
+      error_description: 'PKCE with S256 is required',
+      state: params.state,
+    });
+  }
+
+  const requestId = randomToken();
+  pendingAuthorizations.set(requestId, params);
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html>
+<meta charset="utf-8">
+<title>OAuth stand-in</title>
+<body style="font-family: sans-serif; max-width: 32rem; margin: 4rem auto">
+  <h1>Authorize ${escapeHtml(client.client_name || client.client_id)}?</h1>
+  <p>Redirect URI: <code>${escapeHtml(params.redirect_uri)}</code></p>
+  <p>Scope: <code>${escapeHtml(params.scope || '(none)')}</code></p>
+  <form method="post" action="/authorize/decision">
+    <input type="hidden" name="request" value="${requestId}">
+    <button name="decision" value="approve">Approve</button>
+    <button name="decision" value="deny">Deny</button>
+  </form>
+</body>`);
+}
+
+async function handleAuthorizeDecision(req, res) {
+  const form = new URLSearchParams(await readBody(req));
+  const params = pendingAuthorizations.get(form.get('request'));
+  pendingAuthorizations.delete(form.get('request'));
+  if (!params) {
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    return res.end('Unknown or already used authorization request.');
+  }
+
+  if (form.get('decision') !== 'approve') {
+    log(`client ${params.client_id} denied`);
+    return redirectWithParams(res, params.redirect_uri, {
+      error: 'access_denied',
+      error_description: 'The user denied the request',
+      state: params.state,
+    });
+  }
+
+  const code = randomToken();
+  codes.set(code, {
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge,
+    expiresAt: Date.now() + 60 * 1000,
+  });
+  log(`client ${params.client_id} approved`);
+  redirectWithParams(res, params.redirect_uri, { code, state: params.state });
+}
+
+async function handleToken(req, res) {
+  const form = new URLSearchParams(await readBody(req));
+  const grantType = form.get('grant_type');
+
+  if (grantType === 'authorization_code') {
+    const grant = codes.get(form.get('code'));
+    codes.delete(form.get('code'));
+    if (!grant || grant.expiresAt < Date.now()) {
+      return sendOAuthError(res, 400, 'invalid_grant', 'Unknown or expired authorization code');
+    }
+    if (grant.clientId !== form.get('client_id') || grant.redirectUri !== form.get('redirect_uri')) {
+      return sendOAuthError(res, 400, 'invalid_grant', 'client_id or redirect_uri does not match');
+    }
+    const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      return sendOAuthError(res, 400, 'invalid_grant', 'PKCE verification failed');
+    }
+    log(`issued tokens to ${grant.clientId}`);
+    return sendJson(res, 200, issueTokens(grant.clientId), { 'Cache-Control': 'no-store' });
+  }
+
+  if (grantType === 'refresh_token') {
+    const refresh = refreshTokens.get(form.get('refresh_token'));
+    if (!refresh || refresh.clientId !== form.get('client_id')) {
+      return sendOAuthError(res, 400, 'invalid_grant', 'Unknown refresh token');
+    }
+    // Rotate: the old refresh token stops working once it has been used
+    refreshTokens.delete(form.get('refresh_token'));
+    log(`refreshed tokens for ${refresh.clientId}`);
+    return sendJson(res, 200, issueTokens(refresh.clientId), { 'Cache-Control': 'no-store' });
+  }
+
+  sendOAuthError(res, 400, 'unsupported_grant_type', `Unsupported grant_type ${grantType}`);
+}
+
+function authenticate(req) {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  const token = match && accessTokens.get(match[1]);
+  if (!token) return null;
+  if (token.expiresAt < Date.now()) {
+    accessTokens.delete(match[1]);
+    return null;
+  }
+  return token;
+}
+
+function handleMcpRequest(message, token) {
+  switch (message.method) {
+    case 'initialize':
+      return {
+        protocolVersion: message.params?.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'oauth-stand-in', version: '0.0.0' },
+        instructions: 'Local OAuth stand-in. Call whoami to see which client the token belongs to.',
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return {
+        tools: [{
+          name: 'whoami',
+          description: 'Return the OAuth client the access token was issued to',
+          inputSchema: { type: 'object', properties: {} },
+          annotations: { readOnlyHint: true, openWorldHint: false },
+        }],
+      };
+    case 'tools/call':
+      if (message.params?.name !== 'whoami') {
+        throw Object.assign(new Error(`Unknown tool ${message.params?.name}`), { code: -32602 });
+      }
+      return {
+        content: [{ type: 'text', text: `Signed in as client ${token.clientId}` }],
+      };
+    default:
+      throw Object.assign(new Error(`Method not found: ${message.method}`), { code: -32601 });
+  }
+}
+
+async function handleMcp(req, res) {
+  const token = authenticate(req);
+  if (!token) {
+    res.writeHead(401, {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': `Bearer error="invalid_token", resource_metadata="${ORIGIN}/.well-known/oauth-protected-resource${MCP_PATH}"`,
+    });
+    return res.end(JSON.stringify({ error: 'invalid_token', error_description: 'Missing or expired access token' }));
+  }
+
+  // No server-initiated stream and no session state to end
+  if (req.method === 'GET') {
+    res.writeHead(405, { Allow: 'POST, DELETE' });
+    return res.end();
+  }
+  if (req.method === 'DELETE') {
+    res.writeHead(200);
+    return res.end();
+  }
+
+  let message;
+  try {
+    message = JSON.parse(await readBody(req));
+  } catch {
+    return sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+  }
+
+  // Notifications and responses only need an acknowledgement
+  if (message.id === undefined || !message.method) {
+    res.writeHead(202);
+    return res.end();
+  }
+
+  const headers = message.method === 'initialize' ? { 'Mcp-Session-Id': randomToken() } : {};
+  try {
+    sendJson(res, 200, { jsonrpc: '2.0', id: message.id, result: handleMcpRequest(message, token) }, headers);
+  } catch (error) {
+    sendJson(res, 200, {
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: error.code ?? -32603, message: error.message },
+    }, headers);
+  }
+}
+
+const server = createServer(async (req, res) => {
+  setCors(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const url = new URL(req.url, ORIGIN);
+  try {
+    if (url.pathname === MCP_PATH) return await handleMcp(req, res);
+    if (url.pathname.startsWith('/.well-known/oauth-protected-resource')) return handleProtectedResourceMetadata(res);
+    if (url.pathname === '/.well-known/oauth-authorization-server') return handleAuthorizationServerMetadata(res);
+    if (url.pathname === '/register' && req.method === 'POST') return await handleRegister(req, res);
+    if (url.pathname === '/authorize' && req.method === 'GET') return handleAuthorize(url, res);
+    if (url.pathname === '/authorize/decision' && req.method === 'POST') return await handleAuthorizeDecision(req, res);
+    if (url.pathname === '/token' && req.method === 'POST') return await handleToken(req, res);
+
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Not found');
+  } catch (error) {
+    console.error(error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  log(`OAuth stand-in listening; add ${ORIGIN}${MCP_PATH} as a Streamable HTTP server`);
+});
@@ -5,8 +5,15 @@ import { useUIStore } from './stores';
 import Sidebar from './components/Sidebar';
 import ChatInterface from './components/ChatInterface';
 import ServerManagement from './components/ServerManagement';
+import ResourceExplorer from './components/ResourceExplorer';
 import Settings from './components/Settings';
 import NotificationContainer from './components/NotificationContainer';
+import SamplingDialog from './components/SamplingDialog';
+import ElicitationDialog from './components/ElicitationDialog';
+import ToolApprovalDialog from './components/ToolApprovalDialog';
+import PinnedResourceWatcher from './components/PinnedResourceWatcher';
+import OAuthCallback from './components/OAuthCallback';
+import HealthMonitor from './components/HealthMonitor';
 import { cn } from './utils';
 
 // Create a client
@@ -43,6 +50,8 @@ function App() {
         return <ChatInterface />;
       case 'servers':
         return <ServerManagement />;
+      case 'resources':
+        return <ResourceExplorer />;
       case 'settings':
         return <Settings />;
       default:
@@ -73,6 +82,7 @@ function App() {
                   <h1 className="text-lg font-semibold">
                     {activeTab === 'chat' && '聊天'}
                     {activeTab === 'servers' && 'MCP 服务器'}
+                    {activeTab === 'resources' && 'MCP 资源'}
                     {activeTab === 'settings' && '设置'}
                   </h1>
                 </div>
@@ -92,6 +102,20 @@ function App() {
 
         {/* Notifications */}
         <NotificationContainer />
+
+        {/* MCP server-to-client requests */}
+        <SamplingDialog />
+        <ElicitationDialog />
+
+        {/* Confirmation for destructive and open-world tool calls */}
+        <ToolApprovalDialog />
+
+        {/* Resource subscriptions for pinned chat attachments */}
+        <PinnedResourceWatcher />
+        <OAuthCallback />
+
+        {/* Background pings to connected servers */}
+        <HealthMonitor />
         
         {/* Toast Viewport */}
         <ToastViewport />
@@ -1,22 +1,93 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, RefreshCw } from 'lucide-react';
+import { Send, Bot, User, Loader2, RefreshCw, Paperclip, Pin, X } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Card } from './ui/Card';
-import { useChatStore, useSettingsStore, useMCPServerStore } from '../stores';
+import PromptPicker from './PromptPicker';
+import PromptArgumentsDialog from './PromptArgumentsDialog';
+import ToolCallProgress, { RunningToolCall } from './ToolCallProgress';
+import SystemPromptPreview from './SystemPromptPreview';
+import ToolResultView from './ToolResultView';
+import { useChatStore, useSettingsStore, useMCPServerStore, useUIStore } from '../stores';
 import { LLMService, OracleAIService } from '../services/api';
 import { mcpToolHandler } from '../services/mcp-tool-handler';
 import { formatRelativeTime, parseErrorMessage } from '../utils';
-import { LLMProvider } from '../types';
+import { ChatAttachment, ChatMessage, LLMProvider } from '../types';
 import { MCPToolCall } from '../services/mcp-tool-handler';
+import { ServerPrompt, filterPrompts, getPromptMessages, listAllPrompts } from '../services/prompts';
+import { buildSystemPrompt } from '../services/system-prompt';
+import { getToolResultImages } from '../services/tool-output';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 
+// Render attached resources as text blocks appended to the message content
+function withAttachments(content: string, attachments?: ChatAttachment[]): string {
+  if (!attachments || attachments.length === 0) return content;
+
+  const blocks = attachments.flatMap((attachment) =>
+    attachment.contents.map((item) => {
+      const body = item.text !== undefined
+        ? item.text
+        : `[二进制内容: ${item.mimeType || 'application/octet-stream'}]`;
+      return `<resource server="${attachment.serverName}" uri="${item.uri}"${item.mimeType ? ` mimeType="${item.mimeType}"` : ''}>\n${body}\n</resource>`;
+    })
+  );
+
+  return `${content}\n\n${blocks.join('\n\n')}`;
+}
+
+type APIMessage = {
+  role: ChatMessage['role'];
+  content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+};
+
+// Convert a chat message to the shape sent to the LLM
+function toAPIMessage(msg: Pick<ChatMessage, 'role' | 'content' | 'metadata'>): APIMessage {
+  return {
+    role: msg.role,
+    content: withAttachments(msg.content, msg.metadata?.attachments),
+  };
+}
+
+// Like toAPIMessage, but images returned by tools follow as image parts when the
+// model accepts images. OpenAI only allows image parts in user messages.
+function toAPIMessages(msg: Pick<ChatMessage, 'role' | 'content' | 'metadata'>): APIMessage[] {
+  const message = toAPIMessage(msg);
+  const { settings } = useSettingsStore.getState();
+  const images = settings.providerType === 'openai' && settings.openaiVision
+    ? getToolResultImages(msg.metadata?.toolResults)
+    : [];
+  if (images.length === 0) return [message];
+
+  return [message, {
+    role: 'user',
+    content: [
+      { type: 'text', text: '以上工具调用返回的图像：' },
+      ...images.map((url) => ({ type: 'image_url' as const, image_url: { url } })),
+    ],
+  }];
+}
+
+// Prepend the instructions of enabled MCP servers as a system message. Read
+// from the store at send time, after getAvailableTools has connected them.
+function withSystemPrompt(messages: APIMessage[]): APIMessage[] {
+  const systemPrompt = buildSystemPrompt(useMCPServerStore.getState().servers);
+  return systemPrompt ? [{ role: 'system' as const, content: systemPrompt }, ...messages] : messages;
+}
+
 const ChatInterface: React.FC = () => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [prompts, setPrompts] = useState<ServerPrompt[]>([]);
+  const [isPromptsLoading, setIsPromptsLoading] = useState(false);
+  const [promptIndex, setPromptIndex] = useState(0);
+  const [isPickerDismissed, setIsPickerDismissed] = useState(false);
+  const [argumentsPrompt, setArgumentsPrompt] = useState<ServerPrompt | null>(null);
+  const [isPromptSubmitting, setIsPromptSubmitting] = useState(false);
+  const [runningTools, setRunningTools] = useState<RunningToolCall[]>([]);
+  const toolControllers = useRef(new Map<string, AbortController>());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   
@@ -26,13 +97,22 @@ const ChatInterface: React.FC = () => {
     updateMessage, 
     removeMessagesFromIndex,
     createSession, 
-    currentSessionId 
+    currentSessionId,
+    pendingAttachments,
+    updateAttachment,
+    removeAttachment,
+    clearAttachments
   } = useChatStore();
   const { settings } = useSettingsStore();
   const { servers = [] } = useMCPServerStore();
+  const { addNotification } = useUIStore();
   
   const currentSession = getCurrentSession();
 
+  // Typing "/" at the start of the input opens the prompt picker
+  const isPickerOpen = input.startsWith('/') && !isPickerDismissed && !isLoading;
+  const filteredPrompts = isPickerOpen ? filterPrompts(prompts, input.slice(1)) : [];
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -43,6 +123,45 @@ const ChatInterface: React.FC = () => {
     inputRef.current?.focus();
   }, [currentSessionId]);
 
+  // Refresh the prompt list each time the picker opens
+  useEffect(() => {
+    if (!isPickerOpen) return;
+
+    let cancelled = false;
+    setIsPromptsLoading(true);
+    listAllPrompts()
+      .then((result) => !cancelled && setPrompts(result))
+      .finally(() => !cancelled && setIsPromptsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isPickerOpen]);
+
+  useEffect(() => {
+    setPromptIndex(0);
+  }, [input]);
+
+  // Warn before a reload would orphan running tool calls on the server, and
+  // send best-effort cancellations if the user leaves anyway
+  useEffect(() => {
+    if (runningTools.length === 0) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    const handlePageHide = () => {
+      toolControllers.current.forEach((controller) => controller.abort('Page closed'));
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [runningTools.length > 0]);
+
   // Create initial session if none exists
   useEffect(() => {
     if (!currentSession && !currentSessionId) {
@@ -54,7 +173,10 @@ const ChatInterface: React.FC = () => {
     if (!input.trim() || isLoading || !currentSession) return;
 
     const userMessage = input.trim();
+    const attachments = pendingAttachments;
+    const userMetadata = attachments.length > 0 ? { attachments } : undefined;
     setInput('');
+    clearAttachments();
     setIsLoading(true);
 
     try {
@@ -62,6 +184,7 @@ const ChatInterface: React.FC = () => {
       addMessage(currentSession.id, {
         role: 'user',
         content: userMessage,
+        metadata: userMetadata,
       });
 
       // Get available tools from MCP servers
@@ -82,13 +205,10 @@ const ChatInterface: React.FC = () => {
        });
 
       // Prepare messages for API
-      const messages = [
+      const messages = withSystemPrompt([
         ...currentSession.messages,
-        { role: 'user', content: userMessage }
-      ].slice(-10).map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
+        { role: 'user' as const, content: userMessage, metadata: userMetadata }
+      ].slice(-10).flatMap(toAPIMessages));
 
       if (settings.providerType === 'openai') {
         const providerConfig: LLMProvider = {
@@ -195,14 +315,27 @@ const ChatInterface: React.FC = () => {
     });
 
     try {
-      // Execute tools
-      const results = await mcpToolHandler.executeMultipleTools(toolCalls);
+      // Execute tools, tracking progress and cancellation per call
+      setRunningTools(toolCalls.map((toolCall) => ({ id: toolCall.id, name: toolCall.function.name })));
+      const results = await mcpToolHandler.executeMultipleTools(toolCalls, (toolCall) => {
+        const controller = new AbortController();
+        toolControllers.current.set(toolCall.id, controller);
+        return {
+          signal: controller.signal,
+          onProgress: (progress) =>
+            setRunningTools((prev) => prev.map((tool) => (tool.id === toolCall.id ? { ...tool, progress } : tool))),
+        };
+      }).finally(() => {
+        toolControllers.current.clear();
+        setRunningTools([]);
+      });
       
       // Format and add tool results
       const resultContent = mcpToolHandler.formatToolResultsForChat(results);
       addMessage(sessionId, {
         role: 'assistant',
         content: resultContent,
+        metadata: { toolResults: results },
       });
 
       // Get follow-up response from LLM with tool results
@@ -224,10 +357,7 @@ const ChatInterface: React.FC = () => {
         const currentSession = getCurrentSession();
         
         if (currentSession) {
-          const messages = currentSession.messages.slice(-10).map(msg => ({
-            role: msg.role,
-            content: msg.content
-          }));
+          const messages = withSystemPrompt(currentSession.messages.slice(-10).flatMap(toAPIMessages));
           const response = await llmService.chat(messages, settings.openaiModelName, {
             max_tokens: settings.maxTokens,
             temperature: settings.temperature,
@@ -249,7 +379,64 @@ const ChatInterface: React.FC = () => {
     }
   };
 
+  const handleCancelTool = (id: string) => {
+    toolControllers.current.get(id)?.abort('User cancelled tool call');
+    setRunningTools((prev) => prev.map((tool) => (tool.id === id ? { ...tool, cancelled: true } : tool)));
+  };
+
+  const insertPrompt = async (item: ServerPrompt, args: Record<string, string>) => {
+    if (!currentSession) return;
+
+    setIsPromptSubmitting(true);
+    try {
+      const messages = await getPromptMessages(item.server, item.prompt.name, args);
+      messages.forEach((message) => addMessage(currentSession.id, message));
+      setInput('');
+      setArgumentsPrompt(null);
+    } catch (error) {
+      console.error('Failed to get prompt:', error);
+      addNotification({
+        type: 'error',
+        title: '获取提示失败',
+        message: parseErrorMessage(error),
+      });
+    } finally {
+      setIsPromptSubmitting(false);
+    }
+  };
+
+  const handleSelectPrompt = (item: ServerPrompt) => {
+    if (item.prompt.arguments?.length) {
+      setArgumentsPrompt(item);
+    } else {
+      insertPrompt(item, {});
+    }
+  };
+
+  const handlePickerKeyDown = (e: React.KeyboardEvent) => {
+    if (!isPickerOpen) return;
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsPickerDismissed(true);
+    } else if (filteredPrompts.length === 0) {
+      return;
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setPromptIndex((index) => (index + 1) % filteredPrompts.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setPromptIndex((index) => (index - 1 + filteredPrompts.length) % filteredPrompts.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handleSelectPrompt(filteredPrompts[Math.min(promptIndex, filteredPrompts.length - 1)]);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    // Enter is handled by the prompt picker while it has matches
+    if (isPickerOpen && filteredPrompts.length > 0) return;
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -299,10 +486,7 @@ const ChatInterface: React.FC = () => {
       });
 
       // Prepare messages for API (use messages up to the user message)
-      const messages = currentSession.messages.slice(0, userMessageIndex + 1).slice(-10).map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
+      const messages = withSystemPrompt(currentSession.messages.slice(0, userMessageIndex + 1).slice(-10).flatMap(toAPIMessages));
 
       if (settings.providerType === 'openai') {
         const providerConfig: LLMProvider = {
@@ -449,33 +633,51 @@ const ChatInterface: React.FC = () => {
                         )}
                       </div>
                     <div className="flex-1 min-w-0">
-                      <div className="prose prose-sm max-w-none dark:prose-invert">
-                        <div>
-                          <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            components={{
-                              code({ node, inline, className, children, ...props }: any) {
-                                const match = /language-(\w+)/.exec(className || '');
-                                return !inline && match ? (
-                                  <SyntaxHighlighter
-                                    style={oneDark as any}
-                                    language={match[1]}
-                                    PreTag="div"
-                                  >
-                                    {String(children).replace(/\n$/, '')}
-                                  </SyntaxHighlighter>
-                                ) : (
-                                  <code className={className} {...props}>
-                                    {children}
-                                  </code>
-                                );
-                              },
-                            }}
-                          >
-                            {message.content}
-                           </ReactMarkdown>
-                         </div>
-                       </div>
+                      {message.metadata?.toolResults ? (
+                        <ToolResultView results={message.metadata.toolResults} />
+                      ) : (
+                        <div className="prose prose-sm max-w-none dark:prose-invert">
+                          <div>
+                            <ReactMarkdown
+                              remarkPlugins={[remarkGfm]}
+                              components={{
+                                code({ node, inline, className, children, ...props }: any) {
+                                  const match = /language-(\w+)/.exec(className || '');
+                                  return !inline && match ? (
+                                    <SyntaxHighlighter
+                                      style={oneDark as any}
+                                      language={match[1]}
+                                      PreTag="div"
+                                    >
+                                      {String(children).replace(/\n$/, '')}
+                                    </SyntaxHighlighter>
+                                  ) : (
+                                    <code className={className} {...props}>
+                                      {children}
+                                    </code>
+                                  );
+                                },
+                              }}
+                            >
+                              {message.content}
+                            </ReactMarkdown>
+                          </div>
+                        </div>
+                      )}
+                      {message.metadata?.attachments && message.metadata.attachments.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          {message.metadata.attachments.map((attachment) => (
+                            <span
+                              key={attachment.id}
+                              className="inline-flex items-center text-xs px-2 py-0.5 rounded bg-black/10"
+                              title={attachment.uri}
+                            >
+                              <Paperclip className="h-3 w-3 mr-1" />
+                              {attachment.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       <div className="mt-2 flex items-center justify-between">
                         <div className="text-xs opacity-70">
                           {formatRelativeTime(new Date(message.timestamp))}
@@ -507,7 +709,11 @@ const ChatInterface: React.FC = () => {
           ))
         )}
         
-        {isLoading && (
+        {runningTools.length > 0 && (
+          <ToolCallProgress tools={runningTools} onCancel={handleCancelTool} />
+        )}
+
+        {isLoading && runningTools.length === 0 && (
           <div className="flex justify-start">
             <Card className="bg-muted">
               <div className="p-4">
@@ -526,36 +732,87 @@ const ChatInterface: React.FC = () => {
 
       {/* Input Area */}
       <div className="border-t border-border p-4">
-        <div className="flex space-x-2">
-          <Input
-            ref={inputRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="输入消息..."
-            disabled={isLoading}
-            className="flex-1"
-          />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isLoading}
-            size="icon"
-          >
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-          </Button>
+        {/* Resources attached to the next message */}
+        {pendingAttachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {pendingAttachments.map((attachment) => (
+              <span
+                key={attachment.id}
+                className="inline-flex items-center text-xs px-2 py-1 rounded-md border bg-muted"
+                title={attachment.uri}
+              >
+                <Paperclip className="h-3 w-3 mr-1" />
+                {attachment.serverName}: {attachment.name}
+                <button
+                  className={`ml-1 ${attachment.pinned ? 'text-blue-500' : 'opacity-60 hover:opacity-100'}`}
+                  title={attachment.pinned ? '取消固定' : '固定：随每条消息发送并自动刷新'}
+                  onClick={() => updateAttachment(attachment.id, { pinned: !attachment.pinned })}
+                >
+                  <Pin className="h-3 w-3" />
+                </button>
+                <button
+                  className="ml-1 opacity-60 hover:opacity-100"
+                  onClick={() => removeAttachment(attachment.id)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="relative">
+          {isPickerOpen && (
+            <PromptPicker
+              prompts={filteredPrompts}
+              activeIndex={promptIndex}
+              isLoading={isPromptsLoading && prompts.length === 0}
+              onSelect={handleSelectPrompt}
+              onHover={setPromptIndex}
+            />
+          )}
+          <div className="flex space-x-2">
+            <Input
+              ref={inputRef}
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setIsPickerDismissed(false);
+              }}
+              onKeyDown={handlePickerKeyDown}
+              onKeyPress={handleKeyPress}
+              placeholder="输入消息，或输入 / 使用 MCP 提示..."
+              disabled={isLoading}
+              className="flex-1"
+            />
+            <Button
+              onClick={handleSendMessage}
+              disabled={!input.trim() || isLoading}
+              size="icon"
+            >
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
         </div>
         
         {/* Active MCP Servers Indicator */}
         {servers && servers.filter(s => !s.disabled).length > 0 && (
-          <div className="mt-2 text-xs text-muted-foreground">
-            活跃的MCP服务器: {servers.filter(s => !s.disabled).map(server => server.name).join(', ')}
+          <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+            <span>活跃的MCP服务器: {servers.filter(s => !s.disabled).map(server => server.name).join(', ')}</span>
+            <SystemPromptPreview />
           </div>
         )}
       </div>
+
+      <PromptArgumentsDialog
+        item={argumentsPrompt}
+        isSubmitting={isPromptSubmitting}
+        onSubmit={(args) => argumentsPrompt && insertPrompt(argumentsPrompt, args)}
+        onCancel={() => setArgumentsPrompt(null)}
+      />
     </div>
   );
 };
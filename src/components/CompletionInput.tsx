@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Input } from './ui/Input';
+import { connectionManager } from '../services/connection-manager';
+import { MCPServer } from '../types';
+import { cn, debounce } from '../utils';
+
+export type CompletionRef =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+interface CompletionInputProps {
+  server: MCPServer;
+  completionRef: CompletionRef;
+  name: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Values already entered for the other arguments, sent as completion context
+  contextArguments?: Record<string, string>;
+  placeholder?: string;
+}
+
+// Text input that suggests values from the server's completion/complete endpoint
+const CompletionInput: React.FC<CompletionInputProps> = ({
+  server,
+  completionRef,
+  name,
+  value,
+  onChange,
+  contextArguments = {},
+  placeholder,
+}) => {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Only the latest request may update suggestions; responses can arrive out of order
+  const latestRequest = useRef(0);
+  const contextRef = useRef(contextArguments);
+  contextRef.current = contextArguments;
+
+  const refKey = completionRef.type === 'ref/prompt' ? completionRef.name : completionRef.uri;
+
+  const fetchSuggestions = useMemo(
+    () =>
+      debounce(async (text: string) => {
+        const requestId = ++latestRequest.current;
+        try {
+          const connection = await connectionManager.getConnection(server);
+          const context = Object.fromEntries(
+            Object.entries(contextRef.current).filter(([key, val]) => key !== name && val)
+          );
+          const values = await connection.complete(completionRef, { name, value: text }, context);
+          if (requestId === latestRequest.current) {
+            setSuggestions(values);
+            setActiveIndex(-1);
+          }
+        } catch (error) {
+          console.error('Failed to fetch completions:', error);
+        }
+      }, 300),
+    [server.id, completionRef.type, refKey, name]
+  );
+
+  // Drop responses that arrive after unmount
+  useEffect(() => () => {
+    latestRequest.current++;
+  }, []);
+
+  const selectSuggestion = (suggestion: string) => {
+    onChange(suggestion);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isOpen || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      // Pick the suggestion instead of submitting the form
+      e.preventDefault();
+      selectSuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          fetchSuggestions(e.target.value);
+        }}
+        onFocus={() => {
+          setIsOpen(true);
+          fetchSuggestions(value);
+        }}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {isOpen && suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-50 max-h-48 overflow-y-auto scrollbar-thin rounded-md border bg-background shadow-lg">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion}
+              type="button"
+              className={cn(
+                'w-full text-left px-3 py-1.5 text-sm hover:bg-accent',
+                index === activeIndex && 'bg-accent'
+              )}
+              onMouseEnter={() => setActiveIndex(index)}
+              onMouseDown={(e) => {
+                // Keep focus in the input so onBlur does not close the list first
+                e.preventDefault();
+                selectSuggestion(suggestion);
+              }}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompletionInput;
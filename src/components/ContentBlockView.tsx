@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ExternalLink, Music } from 'lucide-react';
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/Dialog';
+import ResourcePreview from './ResourcePreview';
+import { useUIStore } from '../stores';
+import { MCPServer } from '../types';
+
+interface ContentBlockViewProps {
+  blocks: ContentBlock[];
+  // Server that produced the blocks; resource links open against it
+  server?: MCPServer;
+}
+
+function toDataUrl(mimeType: string | undefined, data: string): string {
+  return `data:${mimeType || 'application/octet-stream'};base64,${data}`;
+}
+
+// Tool result content blocks: text, images with a lightbox, audio, resource links and embedded resources
+const ContentBlockView: React.FC<ContentBlockViewProps> = ({ blocks, server }) => {
+  const [lightboxImage, setLightboxImage] = useState<string | null>(null);
+  const { openResource } = useUIStore();
+
+  // Blocks this view does not know, or media without data, are shown as raw JSON
+  const renderRaw = (block: unknown, index: number) => (
+    <code key={index} className="block text-xs break-all text-muted-foreground">
+      {JSON.stringify(block)}
+    </code>
+  );
+
+  const renderBlock = (block: ContentBlock, index: number) => {
+    switch (block.type) {
+      case 'text':
+        return (
+          <pre key={index} className="text-xs whitespace-pre-wrap break-words">{block.text}</pre>
+        );
+
+      case 'image': {
+        if (!block.data) return renderRaw(block, index);
+        const src = toDataUrl(block.mimeType, block.data);
+        return (
+          <button key={index} type="button" onClick={() => setLightboxImage(src)} title="点击放大">
+            <img src={src} alt="工具返回的图像" className="max-h-64 max-w-full rounded border cursor-zoom-in" />
+          </button>
+        );
+      }
+
+      case 'audio':
+        if (!block.data) return renderRaw(block, index);
+        return (
+          <div key={index} className="flex items-center space-x-2">
+            <Music className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <audio controls src={toDataUrl(block.mimeType, block.data)} className="max-w-full" />
+          </div>
+        );
+
+      case 'resource_link':
+        return (
+          <button
+            key={index}
+            type="button"
+            className="flex items-center space-x-1 text-xs text-blue-600 hover:underline disabled:text-muted-foreground disabled:no-underline"
+            title={block.description || block.uri}
+            disabled={!server}
+            onClick={() => server && openResource({ serverId: server.id, uri: block.uri, name: block.title || block.name })}
+          >
+            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{block.title || block.name || block.uri}</span>
+            {block.mimeType && <span className="text-muted-foreground">({block.mimeType})</span>}
+          </button>
+        );
+
+      case 'resource':
+        return (
+          <div key={index} className="space-y-1">
+            <div className="text-xs text-muted-foreground truncate">{block.resource.uri}</div>
+            <ResourcePreview contents={[block.resource]} />
+          </div>
+        );
+
+      default:
+        return renderRaw(block, index);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {blocks.map(renderBlock)}
+
+      <Dialog open={!!lightboxImage} onOpenChange={(open) => !open && setLightboxImage(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>图像</DialogTitle>
+          </DialogHeader>
+          {lightboxImage && (
+            <img src={lightboxImage} alt="工具返回的图像" className="max-h-[80vh] max-w-full mx-auto" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ContentBlockView;
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/Dialog';
+import { useElicitationStore } from '../stores';
+import {
+  ElicitationField,
+  PendingElicitationRequest,
+  getDefaultValues,
+  getElicitationFields,
+  respondElicitation,
+  validateElicitationValues,
+} from '../services/elicitation';
+
+interface ElicitationFormProps {
+  request: PendingElicitationRequest;
+}
+
+const ElicitationForm: React.FC<ElicitationFormProps> = ({ request }) => {
+  const fields = useMemo(() => getElicitationFields(request.params), [request.params]);
+  const [input, setInput] = useState<Record<string, string | boolean>>(() => getDefaultValues(fields));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const setValue = (name: string, value: string | boolean) => {
+    setInput((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleAccept = () => {
+    const { values, errors: validationErrors } = validateElicitationValues(fields, input);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    respondElicitation(request, { action: 'accept', content: values });
+  };
+
+  const renderField = (field: ElicitationField) => {
+    if (field.type === 'boolean') {
+      return (
+        <label className="flex items-center space-x-2 text-sm">
+          <input
+            type="checkbox"
+            checked={input[field.name] === true}
+            onChange={(e) => setValue(field.name, e.target.checked)}
+          />
+          <span>{field.title || field.name}</span>
+        </label>
+      );
+    }
+
+    if (field.enum) {
+      return (
+        <select
+          value={String(input[field.name] ?? '')}
+          onChange={(e) => setValue(field.name, e.target.value)}
+          className="w-full h-10 px-3 py-2 text-sm border border-input bg-background rounded-md"
+        >
+          <option value="">请选择...</option>
+          {field.enum.map((option, index) => (
+            <option key={option} value={option}>
+              {field.enumNames?.[index] || option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    const inputType =
+      field.type === 'number' || field.type === 'integer'
+        ? 'number'
+        : field.format === 'email'
+          ? 'email'
+          : field.format === 'date'
+            ? 'date'
+            : field.format === 'date-time'
+              ? 'datetime-local'
+              : field.format === 'uri'
+                ? 'url'
+                : 'text';
+
+    return (
+      <Input
+        type={inputType}
+        value={String(input[field.name] ?? '')}
+        onChange={(e) => setValue(field.name, e.target.value)}
+        min={field.minimum}
+        max={field.maximum}
+        step={field.type === 'integer' ? 1 : undefined}
+      />
+    );
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center space-x-2">
+          <MessageSquareText className="h-5 w-5" />
+          <span>{request.serverName} 需要您的输入</span>
+        </DialogTitle>
+        <DialogDescription className="whitespace-pre-wrap">{request.params.message}</DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[60vh] overflow-y-auto space-y-4 scrollbar-thin">
+        {fields.length === 0 && (
+          <p className="text-sm text-muted-foreground">无需填写任何内容，请确认是否继续</p>
+        )}
+        {fields.map((field) => (
+          <div key={field.name}>
+            {field.type !== 'boolean' && (
+              <label className="text-sm font-medium">
+                {field.title || field.name}
+                {field.required && <span className="text-red-500 ml-1">*</span>}
+              </label>
+            )}
+            {renderField(field)}
+            {field.description && (
+              <p className="text-xs text-muted-foreground mt-1">{field.description}</p>
+            )}
+            {errors[field.name] && (
+              <p className="text-xs text-red-500 mt-1">{errors[field.name]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={() => respondElicitation(request, { action: 'cancel' })}>
+          取消
+        </Button>
+        <Button variant="outline" onClick={() => respondElicitation(request, { action: 'decline' })}>
+          拒绝
+        </Button>
+        <Button onClick={handleAccept}>提交</Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+const ElicitationDialog: React.FC = () => {
+  const { requests } = useElicitationStore();
+  const current = requests[0];
+
+  return (
+    <Dialog
+      open={!!current}
+      onOpenChange={(open) => {
+        // Dismissing the dialog without choosing counts as cancel
+        if (!open && current) respondElicitation(current, { action: 'cancel' });
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        {current && <ElicitationForm key={current.id} request={current} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ElicitationDialog;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { KeyRound, Lock, Unlock, Plus, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { hasSecretReference } from '../services/secrets';
+import { MCPHeaderEntry } from '../types';
+import { cn } from '../utils';
+
+const PRESETS: Array<{ label: string; row: MCPHeaderEntry }> = [
+  { label: 'Bearer Token', row: { name: 'Authorization', value: 'Bearer ', secret: true } },
+  { label: 'API Key', row: { name: 'X-API-Key', value: '', secret: true } },
+];
+
+interface HeaderEditorProps {
+  rows: MCPHeaderEntry[];
+  onChange: (rows: MCPHeaderEntry[]) => void;
+}
+
+// Key/value editor for the HTTP headers sent to an MCP server
+const HeaderEditor: React.FC<HeaderEditorProps> = ({ rows, onChange }) => {
+  const updateRow = (index: number, updates: Partial<MCPHeaderEntry>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <Input
+            value={row.name}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+            placeholder="Header"
+            className="w-1/3"
+          />
+          <Input
+            type={row.secret && !hasSecretReference(row.value) ? 'password' : 'text'}
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            placeholder={row.secret ? '值，或 ${secret:NAME}' : '值'}
+            className="flex-1"
+            autoComplete="off"
+          />
+          <button
+            type="button"
+            className={cn('p-1', row.secret ? 'text-blue-500' : 'text-muted-foreground')}
+            title={row.secret ? '作为密钥保存（不以明文出现在配置中）' : '明文保存'}
+            onClick={() => updateRow(index, { secret: !row.secret })}
+          >
+            {row.secret ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
+          </button>
+          <button
+            type="button"
+            className="p-1 text-muted-foreground hover:text-foreground"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rows, { name: '', value: '', secret: false }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          添加请求头
+        </Button>
+        {PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...rows, { ...preset.row }])}
+          >
+            <KeyRound className="h-4 w-4 mr-1" />
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HeaderEditor;
@@ -0,0 +1,35 @@
+import React, { useEffect } from 'react';
+import { useMCPServerStore, useSettingsStore } from '../stores';
+import {
+  checkServerHealth,
+  DEFAULT_HEALTH_CHECK_INTERVAL,
+  DEFAULT_HEALTH_CHECK_MAX_MISSES,
+} from '../services/health-monitor';
+import { MCPServer } from '../types';
+
+// Pings every enabled server with an open connection on the configured
+// interval. Renders nothing.
+const HealthMonitor: React.FC = () => {
+  const { settings } = useSettingsStore();
+  const interval = settings.healthCheckInterval || DEFAULT_HEALTH_CHECK_INTERVAL;
+  const maxMisses = settings.healthCheckMaxMisses || DEFAULT_HEALTH_CHECK_MAX_MISSES;
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const { servers } = useMCPServerStore.getState();
+      servers
+        .filter((server: MCPServer) => !server.disabled)
+        .forEach((server: MCPServer) => {
+          checkServerHealth(server, interval, maxMisses).catch((error) =>
+            console.error(`Health check failed for ${server.name}:`, error)
+          );
+        });
+    }, interval * 1000);
+
+    return () => clearInterval(timer);
+  }, [interval, maxMisses]);
+
+  return null;
+};
+
+export default HealthMonitor;
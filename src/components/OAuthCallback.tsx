@@ -0,0 +1,45 @@
+import React, { useEffect } from 'react';
+import { useUIStore } from '../stores';
+import { connectionManager } from '../services/connection-manager';
+import { OAUTH_CALLBACK_PATH, completeSignIn } from '../services/oauth';
+import { parseErrorMessage } from '../utils';
+
+// The authorization code can be exchanged only once, so guard against StrictMode re-running the effect
+let handled = false;
+
+// Headless handler for the OAuth redirect back to OAUTH_CALLBACK_PATH
+const OAuthCallback: React.FC = () => {
+  const { addNotification, setActiveTab } = useUIStore();
+
+  useEffect(() => {
+    if (handled || window.location.pathname !== OAUTH_CALLBACK_PATH) return;
+    handled = true;
+
+    const params = new URLSearchParams(window.location.search);
+    // Drop the code from the address bar before anything else
+    window.history.replaceState(null, '', '/');
+    setActiveTab('servers');
+
+    completeSignIn(params)
+      .then(async (server) => {
+        addNotification({
+          type: 'success',
+          title: '登录成功',
+          message: `已获得 ${server.name} 的授权`,
+        });
+        await connectionManager.getConnection(server);
+      })
+      .catch((error) => {
+        console.error('OAuth callback failed:', error);
+        addNotification({
+          type: 'error',
+          title: '登录失败',
+          message: parseErrorMessage(error),
+        });
+      });
+  }, []);
+
+  return null;
+};
+
+export default OAuthCallback;
@@ -0,0 +1,45 @@
+import React, { useEffect } from 'react';
+import { useChatStore, useMCPServerStore } from '../stores';
+import { readResourceContents, watchResource } from '../services/resource-subscriptions';
+
+// Subscribes to pinned chat attachments and refreshes their contents on
+// notifications/resources/updated. Renders nothing.
+const PinnedResourceWatcher: React.FC = () => {
+  const { pendingAttachments, updateAttachment } = useChatStore();
+  const pinned = pendingAttachments.filter((attachment) => attachment.pinned);
+  const pinnedKey = pinned.map((a) => `${a.id}|${a.serverId}|${a.uri}`).join(',');
+
+  useEffect(() => {
+    const { servers } = useMCPServerStore.getState();
+    const disposers: Array<() => void> = [];
+    let cancelled = false;
+
+    for (const attachment of pinned) {
+      const server = servers.find((s) => s.id === attachment.serverId);
+      if (!server) continue;
+
+      const refresh = () => {
+        readResourceContents(server, attachment.uri)
+          .then((contents) => !cancelled && updateAttachment(attachment.id, { contents }))
+          .catch((error) => console.error(`Failed to refresh pinned resource ${attachment.uri}:`, error));
+      };
+
+      watchResource(server, attachment.uri, refresh)
+        .then((dispose) => {
+          if (!dispose) return;
+          if (cancelled) dispose();
+          else disposers.push(dispose);
+        })
+        .catch((error) => console.error(`Failed to subscribe to pinned resource ${attachment.uri}:`, error));
+    }
+
+    return () => {
+      cancelled = true;
+      disposers.forEach((dispose) => dispose());
+    };
+  }, [pinnedKey]);
+
+  return null;
+};
+
+export default PinnedResourceWatcher;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { SquareSlash } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/Dialog';
+import CompletionInput from './CompletionInput';
+import { ServerPrompt } from '../services/prompts';
+
+interface PromptArgumentsFormProps {
+  item: ServerPrompt;
+  isSubmitting: boolean;
+  onSubmit: (args: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+const PromptArgumentsForm: React.FC<PromptArgumentsFormProps> = ({ item, isSubmitting, onSubmit, onCancel }) => {
+  const promptArguments: any[] = item.prompt.arguments || [];
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nextErrors: Record<string, string> = {};
+    const args: Record<string, string> = {};
+    for (const argument of promptArguments) {
+      const value = values[argument.name]?.trim();
+      if (value) {
+        args[argument.name] = value;
+      } else if (argument.required) {
+        nextErrors[argument.name] = '此项为必填项';
+      }
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length === 0) onSubmit(args);
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle className="flex items-center space-x-2">
+          <SquareSlash className="h-5 w-5" />
+          <span>{item.prompt.title || item.prompt.name}</span>
+        </DialogTitle>
+        <DialogDescription>
+          {item.prompt.description || `来自 ${item.server.name} 的提示`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[60vh] overflow-y-auto space-y-4 py-4 scrollbar-thin">
+        {promptArguments.map((argument) => (
+          <div key={argument.name}>
+            <label className="text-sm font-medium">
+              {argument.title || argument.name}
+              {argument.required && <span className="text-red-500 ml-1">*</span>}
+            </label>
+            <CompletionInput
+              server={item.server}
+              completionRef={{ type: 'ref/prompt', name: item.prompt.name }}
+              name={argument.name}
+              value={values[argument.name] || ''}
+              onChange={(value) => setValues((prev) => ({ ...prev, [argument.name]: value }))}
+              contextArguments={values}
+              placeholder={`输入 ${argument.name}`}
+            />
+            {argument.description && (
+              <p className="text-xs text-muted-foreground mt-1">{argument.description}</p>
+            )}
+            {errors[argument.name] && (
+              <p className="text-xs text-red-500 mt-1">{errors[argument.name]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          取消
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? '获取中...' : '插入'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+interface PromptArgumentsDialogProps {
+  item: ServerPrompt | null;
+  isSubmitting: boolean;
+  onSubmit: (args: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+// Collects the declared arguments of a prompt before calling prompts/get
+const PromptArgumentsDialog: React.FC<PromptArgumentsDialogProps> = ({ item, isSubmitting, onSubmit, onCancel }) => {
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        {item && (
+          <PromptArgumentsForm
+            key={`${item.server.id}-${item.prompt.name}`}
+            item={item}
+            isSubmitting={isSubmitting}
+            onSubmit={onSubmit}
+            onCancel={onCancel}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptArgumentsDialog;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Loader2, SquareSlash } from 'lucide-react';
+import { Card } from './ui/Card';
+import { ServerPrompt } from '../services/prompts';
+import { cn } from '../utils';
+
+interface PromptPickerProps {
+  prompts: ServerPrompt[];
+  activeIndex: number;
+  isLoading: boolean;
+  onSelect: (item: ServerPrompt) => void;
+  onHover: (index: number) => void;
+}
+
+// Popup listing MCP prompts, opened by typing "/" in the chat input
+const PromptPicker: React.FC<PromptPickerProps> = ({ prompts, activeIndex, isLoading, onSelect, onHover }) => {
+  return (
+    <Card className="absolute bottom-full left-0 right-0 mb-2 max-h-72 overflow-y-auto scrollbar-thin z-10 shadow-lg">
+      {isLoading ? (
+        <div className="flex items-center space-x-2 p-3 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>加载提示列表...</span>
+        </div>
+      ) : prompts.length === 0 ? (
+        <div className="p-3 text-sm text-muted-foreground">没有匹配的提示</div>
+      ) : (
+        prompts.map((item, index) => (
+          <button
+            key={`${item.server.id}-${item.prompt.name}`}
+            className={cn(
+              'w-full text-left px-3 py-2 flex items-start space-x-2 hover:bg-accent',
+              index === activeIndex && 'bg-accent'
+            )}
+            onMouseEnter={() => onHover(index)}
+            onMouseDown={(e) => {
+              // Keep focus in the input
+              e.preventDefault();
+              onSelect(item);
+            }}
+          >
+            <SquareSlash className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <div className="min-w-0">
+              <div className="text-sm font-medium">
+                {item.prompt.title || item.prompt.name}
+                <span className="ml-2 text-xs text-muted-foreground">{item.server.name}</span>
+              </div>
+              {item.prompt.description && (
+                <div className="text-xs text-muted-foreground truncate">{item.prompt.description}</div>
+              )}
+            </div>
+          </button>
+        ))
+      )}
+    </Card>
+  );
+};
+
+export default PromptPicker;
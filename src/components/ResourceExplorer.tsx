@@ -0,0 +1,318 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, FileCode, Paperclip, RefreshCw, Server, Radio } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card';
+import ResourcePreview from './ResourcePreview';
+import ResourceTemplateForm from './ResourceTemplateForm';
+import { useChatStore, useMCPServerStore, useUIStore } from '../stores';
+import { connectionManager } from '../services/connection-manager';
+import { readResourceContents, watchResource, watchResourceList } from '../services/resource-subscriptions';
+import { MCPResourceContents, MCPServer } from '../types';
+import { cn, parseErrorMessage } from '../utils';
+
+interface SelectedResource {
+  server: MCPServer;
+  resource: any;
+  // Set when the resource is expanded from a resource template
+  template?: any;
+}
+
+const ResourceExplorer: React.FC = () => {
+  const [resources, setResources] = useState<Record<string, any[]>>({});
+  const [templates, setTemplates] = useState<Record<string, any[]>>({});
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<SelectedResource | null>(null);
+  const [previewContents, setPreviewContents] = useState<MCPResourceContents[] | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const listWatchers = useRef<Array<() => void>>([]);
+  // Bumped by every load and on unmount; only the latest load installs its watchers
+  const loadGeneration = useRef(0);
+
+  const { servers } = useMCPServerStore();
+  const { addAttachment } = useChatStore();
+  const { addNotification, resourceToOpen, clearResourceToOpen } = useUIStore();
+
+  const enabledServers = servers.filter((server: MCPServer) => !server.disabled);
+  const enabledServerIds = enabledServers.map((server: MCPServer) => server.id).join(',');
+
+  const loadResources = async (refresh = false) => {
+    const generation = ++loadGeneration.current;
+    setIsLoading(true);
+    listWatchers.current.forEach((dispose) => dispose());
+    listWatchers.current = [];
+    const watchers: Array<() => void> = [];
+    const nextResources: Record<string, any[]> = {};
+    const nextTemplates: Record<string, any[]> = {};
+    const nextErrors: Record<string, string> = {};
+
+    for (const server of enabledServers) {
+      try {
+        const connection = await connectionManager.getConnection(server);
+        if (refresh) {
+          connection.invalidateCatalog('resources');
+          connection.invalidateCatalog('resourceTemplates');
+        }
+        nextResources[server.id] = await connection.listResources();
+        nextTemplates[server.id] = await connection.listResourceTemplates();
+        watchers.push(await watchResourceList(server, () => loadResourcesRef.current()));
+      } catch (error) {
+        console.error(`Failed to list resources from server ${server.name}:`, error);
+        nextErrors[server.id] = parseErrorMessage(error);
+      }
+    }
+
+    if (generation !== loadGeneration.current) {
+      watchers.forEach((dispose) => dispose());
+      return;
+    }
+
+    listWatchers.current = watchers;
+    setResources(nextResources);
+    setTemplates(nextTemplates);
+    setServerErrors(nextErrors);
+    setIsLoading(false);
+  };
+  // list_changed watchers outlive the render that registered them, so they go through a ref
+  const loadResourcesRef = useRef(loadResources);
+  loadResourcesRef.current = loadResources;
+
+  useEffect(() => {
+    loadResources();
+    return () => {
+      loadGeneration.current++;
+      listWatchers.current.forEach((dispose) => dispose());
+      listWatchers.current = [];
+    };
+  }, [enabledServerIds]);
+
+  const loadPreview = async (server: MCPServer, uri: string) => {
+    setPreviewContents(null);
+    setPreviewError(null);
+    setIsPreviewLoading(true);
+
+    try {
+      setPreviewContents(await readResourceContents(server, uri));
+    } catch (error) {
+      setPreviewError(parseErrorMessage(error));
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  // Keep the open preview current while the server supports subscriptions
+  const previewUri = selected && selected.resource.uri !== selected.template?.uriTemplate
+    ? selected.resource.uri
+    : null;
+
+  useEffect(() => {
+    if (!selected || !previewUri) return;
+
+    const { server } = selected;
+    let dispose: (() => void) | null = null;
+    let cancelled = false;
+
+    watchResource(server, previewUri, () => {
+      readResourceContents(server, previewUri)
+        .then((contents) => !cancelled && setPreviewContents(contents))
+        .catch((error) => console.error('Failed to refresh resource preview:', error));
+    })
+      .then((disposer) => {
+        if (cancelled) {
+          disposer?.();
+        } else {
+          dispose = disposer;
+          setIsLive(!!disposer);
+        }
+      })
+      .catch((error) => console.error('Failed to subscribe to resource:', error));
+
+    return () => {
+      cancelled = true;
+      dispose?.();
+      setIsLive(false);
+    };
+  }, [selected?.server.id, previewUri]);
+
+  const handleSelectResource = (server: MCPServer, resource: any) => {
+    setSelected({ server, resource });
+    loadPreview(server, resource.uri);
+  };
+
+  // Open a resource requested from elsewhere, such as a resource_link in chat
+  useEffect(() => {
+    if (!resourceToOpen) return;
+
+    const server = servers.find((s: MCPServer) => s.id === resourceToOpen.serverId);
+    if (server) {
+      handleSelectResource(server, { uri: resourceToOpen.uri, name: resourceToOpen.name });
+    }
+    clearResourceToOpen();
+  }, [resourceToOpen]);
+
+  const handleSelectTemplate = (server: MCPServer, template: any) => {
+    setSelected({ server, resource: { name: template.name, uri: template.uriTemplate }, template });
+    setPreviewContents(null);
+    setPreviewError(null);
+  };
+
+  const handleReadTemplate = (uri: string) => {
+    if (!selected?.template) return;
+    setSelected({ ...selected, resource: { ...selected.resource, uri } });
+    loadPreview(selected.server, uri);
+  };
+
+  const handleAttachToChat = () => {
+    if (!selected || !previewContents) return;
+
+    addAttachment({
+      serverId: selected.server.id,
+      serverName: selected.server.name,
+      uri: selected.resource.uri,
+      name: selected.resource.name || selected.resource.uri,
+      contents: previewContents,
+    });
+
+    addNotification({
+      type: 'success',
+      title: '已附加到聊天',
+      message: `${selected.resource.name || selected.resource.uri} 将随下一条消息发送`,
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">MCP 资源</h2>
+          <p className="text-muted-foreground">浏览已启用服务器提供的资源并附加到聊天</p>
+        </div>
+
+        <Button variant="outline" onClick={() => loadResources(true)} disabled={isLoading}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', isLoading && 'animate-spin')} />
+          刷新
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Resource List */}
+        <div className="space-y-4">
+          {enabledServers.length === 0 && (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <Server className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">没有已启用的 MCP 服务器</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {enabledServers.map((server: MCPServer) => (
+            <Card key={server.id}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">{server.name}</CardTitle>
+                <CardDescription>
+                  {serverErrors[server.id]
+                    ? `加载失败: ${serverErrors[server.id]}`
+                    : `${resources[server.id]?.length ?? 0} 个资源，${templates[server.id]?.length ?? 0} 个资源模板`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {(resources[server.id] || []).map((resource) => (
+                  <button
+                    key={resource.uri}
+                    onClick={() => handleSelectResource(server, resource)}
+                    className={cn(
+                      'w-full text-left p-2 rounded border hover:bg-accent transition-colors',
+                      selected?.server.id === server.id && !selected.template && selected.resource.uri === resource.uri && 'bg-accent'
+                    )}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <FileText className="h-4 w-4 flex-shrink-0" />
+                      <span className="text-sm font-medium truncate">{resource.name || resource.uri}</span>
+                      {resource.mimeType && (
+                        <span className="text-xs text-muted-foreground flex-shrink-0">{resource.mimeType}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate mt-1">{resource.uri}</div>
+                  </button>
+                ))}
+                {(templates[server.id] || []).map((template) => (
+                  <button
+                    key={template.uriTemplate}
+                    onClick={() => handleSelectTemplate(server, template)}
+                    className={cn(
+                      'w-full text-left p-2 rounded border border-dashed hover:bg-accent transition-colors',
+                      selected?.server.id === server.id && selected.template?.uriTemplate === template.uriTemplate && 'bg-accent'
+                    )}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <FileCode className="h-4 w-4 flex-shrink-0" />
+                      <span className="text-sm font-medium truncate">{template.name || template.uriTemplate}</span>
+                      {template.mimeType && (
+                        <span className="text-xs text-muted-foreground flex-shrink-0">{template.mimeType}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate mt-1">{template.uriTemplate}</div>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Preview */}
+        <Card className="lg:sticky lg:top-0 self-start">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <CardTitle className="text-lg truncate">
+                  {selected ? selected.resource.name || selected.resource.uri : '预览'}
+                </CardTitle>
+                {selected && (
+                  <CardDescription className="truncate">{selected.resource.uri}</CardDescription>
+                )}
+                {isLive && (
+                  <span className="inline-flex items-center text-xs text-green-600 mt-1">
+                    <Radio className="h-3 w-3 mr-1" />
+                    已订阅，内容变化时自动刷新
+                  </span>
+                )}
+              </div>
+              {selected && (
+                <Button size="sm" onClick={handleAttachToChat} disabled={!previewContents}>
+                  <Paperclip className="h-4 w-4 mr-1" />
+                  附加到聊天
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selected?.template && (
+              <ResourceTemplateForm
+                key={`${selected.server.id}-${selected.template.uriTemplate}`}
+                server={selected.server}
+                template={selected.template}
+                onRead={handleReadTemplate}
+                disabled={isPreviewLoading}
+              />
+            )}
+            {!selected ? (
+              <p className="text-sm text-muted-foreground">选择一个资源进行预览</p>
+            ) : isPreviewLoading ? (
+              <p className="text-sm text-muted-foreground">读取资源中...</p>
+            ) : previewError ? (
+              <p className="text-sm text-red-500">读取失败: {previewError}</p>
+            ) : previewContents ? (
+              <ResourcePreview contents={previewContents} />
+            ) : null}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResourceExplorer;
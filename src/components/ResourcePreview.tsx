@@ -0,0 +1,67 @@
+import React from 'react';
+import { FileQuestion } from 'lucide-react';
+import { MCPResourceContents } from '../types';
+import { formatFileSize } from '../utils';
+
+interface ResourcePreviewProps {
+  contents: MCPResourceContents[];
+}
+
+function isJsonMimeType(mimeType?: string): boolean {
+  return !!mimeType && (mimeType === 'application/json' || mimeType.endsWith('+json'));
+}
+
+// Pretty-print JSON text, leaving anything unparsable as-is
+function formatJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+// Approximate decoded size of a base64 blob
+function getBlobSize(blob: string): number {
+  return Math.floor((blob.length * 3) / 4);
+}
+
+const ResourcePreview: React.FC<ResourcePreviewProps> = ({ contents }) => {
+  if (contents.length === 0) {
+    return <p className="text-sm text-muted-foreground">资源内容为空</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {contents.map((item, index) => (
+        <div key={`${item.uri}-${index}`} className="space-y-1">
+          {contents.length > 1 && (
+            <div className="text-xs text-muted-foreground truncate">
+              {item.uri} {item.mimeType && `• ${item.mimeType}`}
+            </div>
+          )}
+
+          {item.text !== undefined ? (
+            <pre className="p-3 bg-gray-50 dark:bg-gray-900 rounded border text-xs overflow-auto max-h-[60vh] whitespace-pre-wrap break-words">
+              {isJsonMimeType(item.mimeType) ? formatJson(item.text) : item.text}
+            </pre>
+          ) : item.blob && item.mimeType?.startsWith('image/') ? (
+            <img
+              src={`data:${item.mimeType};base64,${item.blob}`}
+              alt={item.uri}
+              className="max-w-full max-h-[60vh] rounded border"
+            />
+          ) : (
+            <div className="flex items-center space-x-2 p-3 bg-gray-50 dark:bg-gray-900 rounded border text-sm text-muted-foreground">
+              <FileQuestion className="h-4 w-4" />
+              <span>
+                二进制内容 ({item.mimeType || 'application/octet-stream'}, {formatFileSize(getBlobSize(item.blob || ''))})，无法预览
+              </span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ResourcePreview;
@@ -0,0 +1,62 @@
+import React, { useMemo, useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { Button } from './ui/Button';
+import CompletionInput from './CompletionInput';
+import { MCPServer } from '../types';
+
+interface ResourceTemplateFormProps {
+  server: MCPServer;
+  template: any;
+  onRead: (uri: string) => void;
+  disabled?: boolean;
+}
+
+// Collects RFC 6570 template variables and expands them into a concrete URI
+const ResourceTemplateForm: React.FC<ResourceTemplateFormProps> = ({ server, template, onRead, disabled }) => {
+  const uriTemplate = useMemo(() => new UriTemplate(template.uriTemplate), [template.uriTemplate]);
+  const variableNames = uriTemplate.variableNames;
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const expandedUri = uriTemplate.expand(values);
+  const isComplete = variableNames.every((name) => values[name]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isComplete) onRead(expandedUri);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {template.description && (
+        <p className="text-sm text-muted-foreground">{template.description}</p>
+      )}
+
+      {variableNames.map((name) => (
+        <div key={name}>
+          <label className="text-sm font-medium">{name}</label>
+          <CompletionInput
+            server={server}
+            completionRef={{ type: 'ref/resource', uri: template.uriTemplate }}
+            name={name}
+            value={values[name] || ''}
+            onChange={(value) => setValues((prev) => ({ ...prev, [name]: value }))}
+            contextArguments={values}
+            placeholder={`输入 ${name}`}
+          />
+        </div>
+      ))}
+
+      <div className="text-xs text-muted-foreground break-all">
+        URI: <code>{expandedUri}</code>
+      </div>
+
+      <Button type="submit" size="sm" disabled={!isComplete || disabled}>
+        <BookOpen className="h-4 w-4 mr-1" />
+        读取
+      </Button>
+    </form>
+  );
+};
+
+export default ResourceTemplateForm;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { FolderTree, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useMCPServerStore, useUIStore } from '../stores';
+import { MCPRoot, MCPServer } from '../types';
+import { isValidUrl } from '../utils';
+
+interface RootsEditorProps {
+  server: MCPServer;
+}
+
+// Roots must be file:// URIs per the MCP specification
+function isValidRootUri(uri: string): boolean {
+  return uri.startsWith('file://') && isValidUrl(uri);
+}
+
+const RootsEditor: React.FC<RootsEditorProps> = ({ server }) => {
+  const [newRoot, setNewRoot] = useState<MCPRoot>({ uri: 'file://', name: '' });
+  const { setServerRoots } = useMCPServerStore();
+  const { addNotification } = useUIStore();
+
+  const roots = server.roots || [];
+
+  const handleAddRoot = () => {
+    const uri = newRoot.uri.trim();
+
+    if (!isValidRootUri(uri)) {
+      addNotification({
+        type: 'error',
+        title: '错误',
+        message: '根目录必须是有效的 file:// URI',
+      });
+      return;
+    }
+
+    if (roots.some((root) => root.uri === uri)) {
+      addNotification({
+        type: 'error',
+        title: '错误',
+        message: '该根目录已存在',
+      });
+      return;
+    }
+
+    setServerRoots(server.id, [...roots, { uri, name: newRoot.name?.trim() || undefined }]);
+    setNewRoot({ uri: 'file://', name: '' });
+  };
+
+  const handleRemoveRoot = (uri: string) => {
+    setServerRoots(server.id, roots.filter((root) => root.uri !== uri));
+  };
+
+  return (
+    <div className="space-y-4">
+      {roots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">尚未配置根目录，服务器将无法访问任何本地路径</p>
+      ) : (
+        <div className="space-y-2">
+          {roots.map((root) => (
+            <div key={root.uri} className="flex items-center justify-between p-2 bg-gray-50 rounded border">
+              <div className="flex items-center space-x-2 min-w-0">
+                <FolderTree className="h-4 w-4 flex-shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{root.name || root.uri}</div>
+                  {root.name && (
+                    <div className="text-xs text-muted-foreground truncate">{root.uri}</div>
+                  )}
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleRemoveRoot(root.uri)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Input
+          value={newRoot.uri}
+          onChange={(e) => setNewRoot((prev) => ({ ...prev, uri: e.target.value }))}
+          placeholder="file:///home/user/projects/repo"
+        />
+        <div className="flex space-x-2">
+          <Input
+            value={newRoot.name}
+            onChange={(e) => setNewRoot((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="显示名称（可选）"
+            className="flex-1"
+          />
+          <Button onClick={handleAddRoot}>
+            <Plus className="h-4 w-4 mr-1" />
+            添加
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RootsEditor;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Bot, Loader2, Sparkles } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/Dialog';
+import { useSamplingStore, useSettingsStore } from '../stores';
+import {
+  PendingSamplingRequest,
+  SamplingDraft,
+  approveSampling,
+  createSamplingDraft,
+  generateSamplingCompletion,
+  rejectSampling,
+  selectSamplingModel,
+} from '../services/sampling';
+import { parseErrorMessage } from '../utils';
+
+const textareaClassName =
+  'w-full min-h-[80px] px-3 py-2 text-sm border border-input bg-background rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+interface SamplingRequestFormProps {
+  request: PendingSamplingRequest;
+}
+
+const SamplingRequestForm: React.FC<SamplingRequestFormProps> = ({ request }) => {
+  const { settings } = useSettingsStore();
+  const [draft, setDraft] = useState<SamplingDraft>(() => createSamplingDraft(request.params));
+  const [completion, setCompletion] = useState('');
+  const [model, setModel] = useState(() => selectSamplingModel(request.params, settings));
+  const [stopReason, setStopReason] = useState<string | undefined>();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { params } = request;
+  const preferences = params.modelPreferences;
+
+  const updateMessageText = (index: number, text: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      messages: prev.messages.map((message, i) => (i === index ? { ...message, text } : message)),
+    }));
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const result = await generateSamplingCompletion(params, draft);
+      setCompletion(result.text);
+      setModel(result.model);
+      setStopReason(result.stopReason);
+    } catch (err) {
+      setError(parseErrorMessage(err));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleApprove = () => {
+    approveSampling(request, {
+      role: 'assistant',
+      content: { type: 'text', text: completion },
+      model,
+      stopReason,
+    });
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center space-x-2">
+          <Sparkles className="h-5 w-5" />
+          <span>采样请求</span>
+        </DialogTitle>
+        <DialogDescription>
+          服务器 {request.serverName} 请求使用您的 AI 模型生成内容。发送前可以查看并编辑提示和回复。
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[60vh] overflow-y-auto space-y-4 scrollbar-thin">
+        <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+          <div>最大令牌数: {params.maxTokens}</div>
+          <div>模型: {model || '未配置'}</div>
+          {preferences?.hints && preferences.hints.length > 0 && (
+            <div className="col-span-2">
+              模型提示: {preferences.hints.map((hint) => hint.name).filter(Boolean).join(', ')}
+            </div>
+          )}
+          {preferences && (
+            <div className="col-span-2">
+              优先级: 成本 {preferences.costPriority ?? '-'} • 速度 {preferences.speedPriority ?? '-'} • 智能 {preferences.intelligencePriority ?? '-'}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">系统提示</label>
+          <textarea
+            value={draft.systemPrompt}
+            onChange={(e) => setDraft((prev) => ({ ...prev, systemPrompt: e.target.value }))}
+            className={textareaClassName}
+            placeholder="（无）"
+          />
+        </div>
+
+        {draft.messages.map((message, index) => (
+          <div key={index}>
+            <label className="text-sm font-medium">
+              {message.role === 'user' ? '用户消息' : '助手消息'}
+              {message.content.some((block) => block.type !== 'text') && (
+                <span className="ml-2 text-xs text-muted-foreground">
+                  （含 {message.content.filter((block) => block.type !== 'text').map((block) => block.type).join(', ')}）
+                </span>
+              )}
+            </label>
+            <textarea
+              value={message.text}
+              onChange={(e) => updateMessageText(index, e.target.value)}
+              className={textareaClassName}
+            />
+          </div>
+        ))}
+
+        <Button variant="outline" onClick={handleGenerate} disabled={isGenerating} className="w-full">
+          {isGenerating ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Bot className="h-4 w-4 mr-2" />
+          )}
+          {completion ? '重新生成' : '生成回复'}
+        </Button>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div>
+          <label className="text-sm font-medium">回复</label>
+          <textarea
+            value={completion}
+            onChange={(e) => setCompletion(e.target.value)}
+            className={textareaClassName}
+            placeholder="生成后可编辑回复内容"
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">返回的模型名称</label>
+          <Input value={model} onChange={(e) => setModel(e.target.value)} />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => rejectSampling(request)}>
+          拒绝
+        </Button>
+        <Button onClick={handleApprove} disabled={!completion.trim() || isGenerating}>
+          批准并发送
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+const SamplingDialog: React.FC = () => {
+  const { requests } = useSamplingStore();
+  const current = requests[0];
+
+  return (
+    <Dialog
+      open={!!current}
+      onOpenChange={(open) => {
+        if (!open && current) rejectSampling(current);
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        {current && <SamplingRequestForm key={current.id} request={current} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SamplingDialog;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { KeyRound, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card';
+import { useSecretStore, useUIStore } from '../stores';
+import { secretReference, toSecretName } from '../services/secrets';
+
+// Manage secrets referenced from server headers as ${secret:NAME}. Values are never displayed.
+const SecretsSettings: React.FC = () => {
+  const { secrets, setSecret, removeSecret } = useSecretStore();
+  const { addNotification } = useUIStore();
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+
+  const handleAdd = () => {
+    const secretName = toSecretName(name);
+    if (!secretName || !value) return;
+
+    setSecret(secretName, value);
+    setName('');
+    setValue('');
+    addNotification({
+      type: 'success',
+      title: '密钥已保存',
+      message: `在请求头中使用 ${secretReference(secretName)} 引用`,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>密钥</CardTitle>
+        <CardDescription>
+          服务器请求头通过 {'${secret:NAME}'} 引用这里的值，服务器列表和配置中不会出现明文
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {Object.keys(secrets).length === 0 ? (
+          <p className="text-sm text-muted-foreground">暂无密钥</p>
+        ) : (
+          <div className="space-y-2">
+            {Object.keys(secrets).sort().map((secretName) => (
+              <div key={secretName} className="flex items-center justify-between p-2 rounded border">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <KeyRound className="h-4 w-4 flex-shrink-0" />
+                  <code className="text-sm truncate">{secretReference(secretName)}</code>
+                  <span className="text-xs text-muted-foreground">••••••••</span>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => removeSecret(secretName)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="名称，如 GITHUB_TOKEN"
+            className="w-1/3"
+          />
+          <Input
+            type="password"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="值"
+            className="flex-1"
+            autoComplete="off"
+          />
+          <Button onClick={handleAdd} disabled={!toSecretName(name) || !value}>
+            <Plus className="h-4 w-4 mr-1" />
+            保存
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SecretsSettings;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useMCPServerStore } from '../stores';
+import { connectionManager } from '../services/connection-manager';
+import { CLIENT_PROTOCOL_VERSION, getProtocolVersionWarning } from '../services/protocol';
+import { MCPServer } from '../types';
+import { formatRelativeTime } from '../utils';
+
+// Capability names from the MCP specification, shown with a short description
+const CAPABILITY_LABELS: Record<string, string> = {
+  tools: '工具',
+  resources: '资源',
+  prompts: '提示',
+  logging: '日志',
+  completions: '参数补全',
+  experimental: '实验性功能',
+};
+
+interface ServerDetailsProps {
+  server: MCPServer;
+}
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="grid grid-cols-3 gap-2 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="col-span-2 break-all">{children}</span>
+  </div>
+);
+
+// What the server reported in initialize, as recorded on its MCPServer record
+const ServerDetails: React.FC<ServerDetailsProps> = ({ server }) => {
+  const { updateServer } = useMCPServerStore();
+  const versionWarning = getProtocolVersionWarning(server);
+  const connection = connectionManager.findConnection(server.id);
+  const capabilities = Object.entries(server.serverCapabilities || {});
+
+  if (!server.protocolVersion) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        尚未连接过该服务器，连接后将显示 initialize 返回的信息
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+      {versionWarning && (
+        <div className="flex items-start space-x-2 p-3 rounded border border-yellow-300 bg-yellow-50 text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{versionWarning}</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">服务器</h4>
+        <DetailRow label="名称">
+          {server.serverInfo?.title || server.serverInfo?.name || '未提供'}
+          {server.serverInfo?.title && server.serverInfo.name !== server.serverInfo.title && (
+            <span className="text-muted-foreground"> ({server.serverInfo.name})</span>
+          )}
+        </DetailRow>
+        <DetailRow label="版本">{server.serverInfo?.version || '未提供'}</DetailRow>
+        <DetailRow label="协议版本">
+          {server.protocolVersion}
+          <span className="text-muted-foreground"> （客户端请求 {CLIENT_PROTOCOL_VERSION}）</span>
+        </DetailRow>
+        <DetailRow label="传输方式">{connection?.transportType ?? server.type}</DetailRow>
+        {connection?.sessionId && <DetailRow label="会话 ID">{connection.sessionId}</DetailRow>}
+        {server.lastConnected && (
+          <DetailRow label="上次连接">{formatRelativeTime(new Date(server.lastConnected))}</DetailRow>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">能力</h4>
+        {capabilities.length === 0 ? (
+          <p className="text-sm text-muted-foreground">服务器未声明任何能力</p>
+        ) : (
+          capabilities.map(([name, value]) => {
+            const flags = value && typeof value === 'object' ? Object.keys(value) : [];
+            return (
+              <DetailRow key={name} label={CAPABILITY_LABELS[name] ? `${CAPABILITY_LABELS[name]} (${name})` : name}>
+                {flags.length > 0 ? (
+                  <code className="text-xs">{flags.join(', ')}</code>
+                ) : (
+                  <span className="text-muted-foreground">已启用</span>
+                )}
+              </DetailRow>
+            );
+          })
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">说明 (instructions)</h4>
+          {server.instructions && (
+            <label className="flex items-center space-x-2 text-xs">
+              <input
+                type="checkbox"
+                checked={server.includeInstructions !== false}
+                onChange={(e) => updateServer(server.id, { includeInstructions: e.target.checked })}
+              />
+              <span>加入聊天系统提示</span>
+            </label>
+          )}
+        </div>
+        {server.instructions ? (
+          <pre className="text-xs whitespace-pre-wrap bg-muted p-3 rounded">{server.instructions}</pre>
+        ) : (
+          <p className="text-sm text-muted-foreground">服务器未提供说明</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ServerDetails;
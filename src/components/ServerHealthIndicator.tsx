@@ -0,0 +1,73 @@
+import React from 'react';
+import { useServerHealthStore } from '../stores';
+import { getUptime } from '../services/health-monitor';
+import { HealthSample } from '../types';
+import { cn } from '../utils';
+
+const WIDTH = 80;
+const HEIGHT = 20;
+
+interface ServerHealthIndicatorProps {
+  serverId: string;
+}
+
+// Latency sparkline and uptime of the background pings for one server.
+// Failed pings are drawn as red ticks along the bottom edge.
+const ServerHealthIndicator: React.FC<ServerHealthIndicatorProps> = ({ serverId }) => {
+  const samples = useServerHealthStore((state) => state.samples[serverId]) || [];
+  const uptime = getUptime(samples);
+  if (uptime === null) return null;
+
+  const latest = samples[samples.length - 1];
+  const maxLatency = Math.max(1, ...samples.map((sample) => sample.latency ?? 0));
+  const step = samples.length > 1 ? WIDTH / (samples.length - 1) : 0;
+  const x = (index: number) => (samples.length > 1 ? index * step : WIDTH / 2);
+  const y = (sample: HealthSample) => HEIGHT - 1 - ((sample.latency ?? 0) / maxLatency) * (HEIGHT - 2);
+
+  // Break the line at failed pings so a gap stays visible
+  const segments: string[] = [];
+  let current = '';
+  samples.forEach((sample, index) => {
+    if (sample.latency === null) {
+      if (current) segments.push(current);
+      current = '';
+      return;
+    }
+    current += `${current ? 'L' : 'M'}${x(index).toFixed(1)},${y(sample).toFixed(1)}`;
+  });
+  if (current) segments.push(current);
+
+  const title = latest.latency === null
+    ? `最近一次 ping 失败：${latest.error || '未知错误'}`
+    : `最近一次 ping：${latest.latency} ms`;
+
+  return (
+    <div className="flex items-center space-x-2 text-xs text-muted-foreground" title={title}>
+      <svg width={WIDTH} height={HEIGHT} className="overflow-visible">
+        {segments.map((d, index) => (
+          <path key={index} d={d} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-blue-500" />
+        ))}
+        {samples.map((sample, index) =>
+          sample.latency === null ? (
+            <line
+              key={index}
+              x1={x(index)}
+              x2={x(index)}
+              y1={HEIGHT - 4}
+              y2={HEIGHT}
+              stroke="currentColor"
+              strokeWidth={1.5}
+              className="text-red-500"
+            />
+          ) : null
+        )}
+      </svg>
+      <span>{latest.latency === null ? 'ping 失败' : `${latest.latency} ms`}</span>
+      <span className={cn(uptime < 90 ? 'text-red-600' : uptime < 99 ? 'text-yellow-600' : 'text-green-600')}>
+        在线 {uptime}%
+      </span>
+    </div>
+  );
+};
+
+export default ServerHealthIndicator;
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Search, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useMCPServerStore, useServerLogStore, useUIStore } from '../stores';
+import { connectionManager } from '../services/connection-manager';
+import { MCPLogLevel, MCPServer, ServerLogEntry } from '../types';
+import { cn, downloadFile, parseErrorMessage } from '../utils';
+
+// RFC 5424 severities, least to most severe
+const LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const LEVEL_COLORS: Record<MCPLogLevel, string> = {
+  debug: 'text-gray-500',
+  info: 'text-blue-600',
+  notice: 'text-cyan-600',
+  warning: 'text-yellow-600',
+  error: 'text-red-600',
+  critical: 'text-red-700',
+  alert: 'text-red-700',
+  emergency: 'text-red-800',
+};
+
+const EMPTY_LOGS: ServerLogEntry[] = [];
+
+function formatLogData(data: unknown): string {
+  return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+interface ServerLogConsoleProps {
+  server: MCPServer;
+}
+
+// Streams notifications/message entries for one server
+const ServerLogConsole: React.FC<ServerLogConsoleProps> = ({ server }) => {
+  const logs = useServerLogStore((state) => state.logs[server.id] || EMPTY_LOGS);
+  const clearLogs = useServerLogStore((state) => state.clearLogs);
+  const { updateServer } = useMCPServerStore();
+  const { addNotification } = useUIStore();
+  const [visibleLevels, setVisibleLevels] = useState<Set<MCPLogLevel>>(() => new Set(LOG_LEVELS));
+  const [search, setSearch] = useState('');
+  const [isSettingLevel, setIsSettingLevel] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const filteredLogs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return logs.filter(
+      (entry) =>
+        visibleLevels.has(entry.level) &&
+        (!query ||
+          formatLogData(entry.data).toLowerCase().includes(query) ||
+          entry.logger?.toLowerCase().includes(query))
+    );
+  }, [logs, visibleLevels, search]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [filteredLogs.length]);
+
+  const toggleLevel = (level: MCPLogLevel) => {
+    setVisibleLevels((prev) => {
+      const next = new Set(prev);
+      if (next.has(level)) {
+        next.delete(level);
+      } else {
+        next.add(level);
+      }
+      return next;
+    });
+  };
+
+  const handleSetLevel = async (level: MCPLogLevel) => {
+    setIsSettingLevel(true);
+    try {
+      const connection = await connectionManager.getConnection(server);
+      if (!connection.supportsLogging) {
+        throw new Error('服务器未声明 logging 能力');
+      }
+      await connection.setLoggingLevel(level);
+      updateServer(server.id, { logLevel: level });
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: '设置日志级别失败',
+        message: parseErrorMessage(error),
+      });
+    } finally {
+      setIsSettingLevel(false);
+    }
+  };
+
+  const handleExport = () => {
+    const lines = filteredLogs.map((entry) =>
+      JSON.stringify({
+        timestamp: new Date(entry.timestamp).toISOString(),
+        level: entry.level,
+        logger: entry.logger,
+        data: entry.data,
+      })
+    );
+    downloadFile(lines.join('\n') + '\n', `${server.name}-logs.jsonl`, 'application/x-ndjson');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm font-medium">服务器日志级别</label>
+        <select
+          value={server.logLevel || ''}
+          onChange={(e) => handleSetLevel(e.target.value as MCPLogLevel)}
+          disabled={isSettingLevel}
+          className="h-9 px-2 text-sm border border-input bg-background rounded-md"
+        >
+          <option value="" disabled>
+            默认
+          </option>
+          {LOG_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level}
+            </option>
+          ))}
+        </select>
+
+        <div className="relative flex-1 min-w-[160px]">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="搜索日志..."
+            className="pl-8 h-9"
+          />
+        </div>
+
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={filteredLogs.length === 0}>
+          <Download className="h-4 w-4 mr-1" />
+          导出 JSONL
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => clearLogs(server.id)} disabled={logs.length === 0}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          清空
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {LOG_LEVELS.map((level) => (
+          <button
+            key={level}
+            onClick={() => toggleLevel(level)}
+            className={cn(
+              'text-xs px-2 py-0.5 rounded border',
+              visibleLevels.has(level) ? cn('bg-accent', LEVEL_COLORS[level]) : 'text-muted-foreground opacity-60'
+            )}
+          >
+            {level}
+          </button>
+        ))}
+      </div>
+
+      <div className="h-[50vh] overflow-y-auto scrollbar-thin rounded border bg-gray-50 dark:bg-gray-900 p-2 font-mono text-xs">
+        {filteredLogs.length === 0 ? (
+          <p className="text-muted-foreground">
+            {logs.length === 0 ? '暂无日志，服务器通过 notifications/message 发送的日志会显示在这里' : '没有匹配的日志'}
+          </p>
+        ) : (
+          filteredLogs.map((entry) => (
+            <div key={entry.id} className="flex space-x-2 py-0.5">
+              <span className="text-muted-foreground flex-shrink-0">
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>
+              <span className={cn('w-16 flex-shrink-0 uppercase', LEVEL_COLORS[entry.level])}>{entry.level}</span>
+              {entry.logger && <span className="text-muted-foreground flex-shrink-0">[{entry.logger}]</span>}
+              <span className="whitespace-pre-wrap break-all">{formatLogData(entry.data)}</span>
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        共 {logs.length} 条，显示 {filteredLogs.length} 条
+      </p>
+    </div>
+  );
+};
+
+export default ServerLogConsole;
@@ -1,15 +1,25 @@
 import React, { useState } from 'react';
-import { Plus, Server, Trash2, RefreshCw, Globe, Zap, Power, PowerOff, Wrench } from 'lucide-react';
+import { Plus, Server, Trash2, RefreshCw, Globe, Zap, Power, PowerOff, Wrench, FolderTree, ScrollText, LogIn, LogOut, RotateCw, Info, AlertTriangle } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/Dialog';
-import { useMCPServerStore } from '../stores';
+import RootsEditor from './RootsEditor';
+import HeaderEditor from './HeaderEditor';
+import ServerHealthIndicator from './ServerHealthIndicator';
+import ServerLogConsole from './ServerLogConsole';
+import ServerDetails from './ServerDetails';
+import ToolAnnotationBadges from './ToolAnnotationBadges';
+import { useMCPServerStore, useServerLogStore } from '../stores';
 import { useUIStore } from '../stores';
 import { MCPDiscoveryService } from '../services/api';
-import { testMCPConnectionWithSDK } from '../services/mcp-client';
-import { MCPServerConfig, MCPServer } from '../types';
-import { cn, isValidUrl } from '../utils';
+import { connectionManager } from '../services/connection-manager';
+import { hasOAuthTokens, signIn, signOut } from '../services/oauth';
+import { storeHeaderSecrets } from '../services/secrets';
+import { DEFAULT_RECONNECT_ATTEMPTS } from '../services/reconnect';
+import { getProtocolVersionWarning } from '../services/protocol';
+import { MCPServerConfig, MCPServer, MCPHeaderEntry } from '../types';
+import { cn, generateId, isValidUrl, getServerEndpoint } from '../utils';
 
 const ServerManagement: React.FC = () => {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -18,11 +28,15 @@ const ServerManagement: React.FC = () => {
   const [discoveredServers, setDiscoveredServers] = useState<MCPServer[]>([]);
   const [serverTools, setServerTools] = useState<Record<string, any[]>>({});
   const [loadingTools, setLoadingTools] = useState<Record<string, boolean>>({});
+  const [rootsServerId, setRootsServerId] = useState<string | null>(null);
+  const [logsServerId, setLogsServerId] = useState<string | null>(null);
+  const [detailsServerId, setDetailsServerId] = useState<string | null>(null);
   const [newServerConfig, setNewServerConfig] = useState<MCPServerConfig>({
     name: '',
     url: '',
     type: 'streamable-http',
   });
+  const [headerRows, setHeaderRows] = useState<MCPHeaderEntry[]>([]);
   
   const { 
     servers, 
@@ -31,6 +45,10 @@ const ServerManagement: React.FC = () => {
     toggleServerActive
   } = useMCPServerStore();
   const { addNotification } = useUIStore();
+  const rootsServer = servers.find((s: MCPServer) => s.id === rootsServerId);
+  const logsServer = servers.find((s: MCPServer) => s.id === logsServerId);
+  const detailsServer = servers.find((s: MCPServer) => s.id === detailsServerId);
+  const serverLogs = useServerLogStore((state) => state.logs);
 
   const handleAddServer = async () => {
     if (!newServerConfig.name.trim() || !newServerConfig.url.trim()) {
@@ -52,8 +70,20 @@ const ServerManagement: React.FC = () => {
     }
 
     try {
-      addServer(newServerConfig);
+      // The id is chosen up front so the header secrets can be namespaced by it
+      const serverId = generateId();
+      const headers = storeHeaderSecrets(serverId, headerRows);
+      addServer({
+        id: serverId,
+        name: newServerConfig.name.trim(),
+        url: newServerConfig.url.trim(),
+        type: newServerConfig.type,
+        config: headers || newServerConfig.retryAttempts !== undefined
+          ? { headers, retryAttempts: newServerConfig.retryAttempts }
+          : undefined,
+      });
       setNewServerConfig({ name: '', url: '', type: 'streamable-http' });
+      setHeaderRows([]);
       setIsAddDialogOpen(false);
       
       addNotification({
@@ -81,7 +111,7 @@ const ServerManagement: React.FC = () => {
 
 
   const handleDisconnectServer = async (server: MCPServer) => {
-    // Disconnect logic will be handled by the new SDK
+    await connectionManager.disconnect(server.id);
     addNotification({
       type: 'success',
       title: '已断开连接',
@@ -97,16 +127,17 @@ const ServerManagement: React.FC = () => {
         message: `正在连接到 ${server.name}...`,
       });
       
-      // Use new SDK for connection
-      const result = await testMCPConnectionWithSDK(server.config?.endpoint || '/mcp');
+      // Same shared connection the chat uses
+      const connection = await connectionManager.getConnection(server);
+      const tools = await connection.listTools();
       
       // 连接成功后获取工具列表
-      setServerTools(prev => ({ ...prev, [server.id]: result.tools }));
+      setServerTools(prev => ({ ...prev, [server.id]: tools }));
       
       addNotification({
         type: 'success',
         title: '连接成功',
-        message: `已成功连接到 ${server.name}，发现 ${result.tools.length} 个工具`,
+        message: `已成功连接到 ${server.name}，发现 ${tools.length} 个工具`,
       });
     } catch (error) {
       addNotification({
@@ -123,8 +154,11 @@ const ServerManagement: React.FC = () => {
     try {
       const server = servers.find((s: MCPServer) => s.id === serverId);
       if (server) {
-        const result = await testMCPConnectionWithSDK(server.config?.endpoint || '/mcp');
-        setServerTools(prev => ({ ...prev, [serverId]: result.tools }));
+        // Manual refresh bypasses the cached tool catalog
+        const connection = await connectionManager.getConnection(server);
+        connection.invalidateCatalog('tools');
+        const tools = await connection.listTools();
+        setServerTools(prev => ({ ...prev, [serverId]: tools }));
       }
     } catch (error) {
       console.error(`Failed to load tools for server ${serverId}:`, error);
@@ -134,6 +168,47 @@ const ServerManagement: React.FC = () => {
     }
   };
 
+  const handleSignIn = async (server: MCPServer) => {
+    try {
+      // Usually navigates to the authorization server; returns only if a refresh was enough
+      const authorized = await signIn(server);
+      if (authorized) {
+        addNotification({
+          type: 'success',
+          title: '登录成功',
+          message: `已获得 ${server.name} 的授权`,
+        });
+        await handleConnectServer(server);
+      }
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: '登录失败',
+        message: `无法开始 ${server.name} 的 OAuth 授权: ${error instanceof Error ? error.message : '未知错误'}`,
+      });
+    }
+  };
+
+  const handleRetryNow = async (server: MCPServer) => {
+    const connected = await connectionManager.retryConnection(server);
+    if (connected) {
+      addNotification({
+        type: 'success',
+        title: '已重新连接',
+        message: `已重新连接到 ${server.name}`,
+      });
+    }
+  };
+
+  const handleSignOut = (server: MCPServer) => {
+    signOut(server);
+    addNotification({
+      type: 'success',
+      title: '已退出登录',
+      message: `已清除 ${server.name} 的 OAuth 凭据`,
+    });
+  };
+
   const handleTestMCPConnection = async (server: MCPServer) => {
     try {
       addNotification({
@@ -142,7 +217,7 @@ const ServerManagement: React.FC = () => {
         message: `正在测试 ${server.name} 的MCP连接...`,
       });
       
-      const result = await testMCPConnectionWithSDK(server.config?.endpoint || '/mcp');
+      const result = await connectionManager.testConnection(server);
       
       // 显示测试结果中的工具列表
       setServerTools(prev => ({ ...prev, [server.id]: result.tools }));
@@ -150,7 +225,7 @@ const ServerManagement: React.FC = () => {
       addNotification({
         type: 'success',
         title: '测试完成',
-        message: `MCP连接测试成功完成，发现 ${result.tools.length} 个工具，${result.resources.length} 个资源，${result.prompts.length} 个提示`,
+        message: `MCP连接测试成功完成（${result.transportType}），发现 ${result.tools.length} 个工具，${result.resources.length} 个资源，${result.resourceTemplates.length} 个资源模板，${result.prompts.length} 个提示`,
       });
     } catch (error) {
       addNotification({
@@ -205,6 +280,7 @@ const ServerManagement: React.FC = () => {
       case 'connected':
         return 'text-green-500';
       case 'connecting':
+      case 'reconnecting':
         return 'text-yellow-500';
       case 'error':
         return 'text-red-500';
@@ -219,6 +295,8 @@ const ServerManagement: React.FC = () => {
         return '已连接';
       case 'connecting':
         return '连接中';
+      case 'reconnecting':
+        return '重连中';
       case 'error':
         return '连接失败';
       default:
@@ -256,7 +334,7 @@ const ServerManagement: React.FC = () => {
                 添加服务器
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-w-xl">
               <DialogHeader>
                 <DialogTitle>添加 MCP 服务器</DialogTitle>
                 <DialogDescription>
@@ -291,9 +369,32 @@ const ServerManagement: React.FC = () => {
                     className="w-full h-10 px-3 py-2 text-sm border border-input bg-background rounded-md"
                   >
                     <option value="streamable-http">Streamable HTTP</option>
+                    <option value="sse">SSE (HTTP+SSE, 2024-11-05)</option>
                   </select>
                 </div>
 
+                <div>
+                  <label className="text-sm font-medium">断线重连次数</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={newServerConfig.retryAttempts ?? ''}
+                    onChange={(e) => setNewServerConfig(prev => ({
+                      ...prev,
+                      retryAttempts: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                    }))}
+                    placeholder={`默认 ${DEFAULT_RECONNECT_ATTEMPTS} 次`}
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium">请求头</label>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    锁定的值会保存为密钥，配置中只保留 {'${secret:NAME}'} 引用
+                  </p>
+                  <HeaderEditor rows={headerRows} onChange={setHeaderRows} />
+                </div>
+
                 {/* Removed Transfer Protocol section as per requirement */}
               </div>
               
@@ -338,22 +439,52 @@ const ServerManagement: React.FC = () => {
                     <div className={cn(
                       'w-3 h-3 rounded-full',
                       server.status === 'connected' && 'bg-green-500',
-                      server.status === 'connecting' && 'bg-yellow-500 animate-pulse',
+                      (server.status === 'connecting' || server.status === 'reconnecting') && 'bg-yellow-500 animate-pulse',
                       server.status === 'error' && 'bg-red-500',
                       server.status === 'disconnected' && 'bg-gray-400'
                     )} />
                     <div>
                       <CardTitle className="text-lg">{server.name}</CardTitle>
                       <CardDescription className="text-sm text-gray-600">
-                        {server.type} • {server.status}
+                        {server.type} • {getServerEndpoint(server).toString()}
+                        {server.config?.headers && ` • 请求头: ${Object.keys(server.config.headers).join(', ')}`}
                       </CardDescription>
+                      <ServerHealthIndicator serverId={server.id} />
                     </div>
                   </div>
                   
                   <div className="flex items-center space-x-2">
                     <span className={cn('text-sm font-medium', getStatusColor(server.status))}>
                       {getStatusText(server.status)}
+                      {server.status === 'reconnecting' && server.reconnectAttempt
+                        ? ` (第 ${server.reconnectAttempt}/${server.config?.retryAttempts ?? DEFAULT_RECONNECT_ATTEMPTS} 次)`
+                        : ''}
                     </span>
+
+                    {getProtocolVersionWarning(server) && (
+                      <span title={getProtocolVersionWarning(server) ?? undefined}>
+                        <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                      </span>
+                    )}
+
+                    {(server.status === 'reconnecting' || server.status === 'error') && !server.disabled && (
+                      <Button variant="outline" size="sm" onClick={() => handleRetryNow(server)}>
+                        <RotateCw className="h-4 w-4 mr-1" />
+                        立即重试
+                      </Button>
+                    )}
+
+                    {server.authRequired ? (
+                      <Button size="sm" onClick={() => handleSignIn(server)}>
+                        <LogIn className="h-4 w-4 mr-1" />
+                        登录
+                      </Button>
+                    ) : hasOAuthTokens(server) && (
+                      <Button variant="outline" size="sm" onClick={() => handleSignOut(server)}>
+                        <LogOut className="h-4 w-4 mr-1" />
+                        退出登录
+                      </Button>
+                    )}
                     
                     <Button
                       variant="outline"
@@ -417,6 +548,30 @@ const ServerManagement: React.FC = () => {
                         {loadingTools[server.id] ? '加载中...' : '刷新工具'}
                       </Button>
                     )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRootsServerId(server.id)}
+                    >
+                      <FolderTree className="h-4 w-4 mr-1" />
+                      根目录{server.roots && server.roots.length > 0 ? ` (${server.roots.length})` : ''}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDetailsServerId(server.id)}
+                    >
+                      <Info className="h-4 w-4 mr-1" />
+                      详情
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setLogsServerId(server.id)}
+                    >
+                      <ScrollText className="h-4 w-4 mr-1" />
+                      日志{serverLogs[server.id]?.length ? ` (${serverLogs[server.id].length})` : ''}
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -460,7 +615,10 @@ const ServerManagement: React.FC = () => {
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                           {serverTools[server.id].map((tool, index) => (
                             <div key={index} className="p-2 bg-gray-50 rounded border">
-                              <div className="font-medium text-sm">{tool.name}</div>
+                              <div className="flex items-center justify-between gap-2">
+                                <div className="font-medium text-sm">{tool.annotations?.title || tool.name}</div>
+                                <ToolAnnotationBadges annotations={tool.annotations} />
+                              </div>
                               {tool.description && (
                                 <div className="text-xs text-muted-foreground mt-1">
                                   {tool.description}
@@ -481,6 +639,66 @@ const ServerManagement: React.FC = () => {
         )}
       </div>
 
+      {/* Roots Dialog */}
+      <Dialog open={!!rootsServer} onOpenChange={(open) => !open && setRootsServerId(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>根目录 - {rootsServer?.name}</DialogTitle>
+            <DialogDescription>
+              通过 roots/list 提供给服务器的本地路径，修改后会通知已连接的服务器
+            </DialogDescription>
+          </DialogHeader>
+
+          {rootsServer && <RootsEditor server={rootsServer} />}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRootsServerId(null)}>
+              关闭
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Log Console Dialog */}
+      <Dialog open={!!logsServer} onOpenChange={(open) => !open && setLogsServerId(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>日志 - {logsServer?.name}</DialogTitle>
+            <DialogDescription>
+              服务器通过 notifications/message 发送的日志，可通过 logging/setLevel 调整服务器端级别
+            </DialogDescription>
+          </DialogHeader>
+
+          {logsServer && <ServerLogConsole server={logsServer} />}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLogsServerId(null)}>
+              关闭
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Server Details Dialog */}
+      <Dialog open={!!detailsServer} onOpenChange={(open) => !open && setDetailsServerId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>服务器详情 - {detailsServer?.name}</DialogTitle>
+            <DialogDescription>
+              最近一次 initialize 握手返回的协议版本、服务器信息、能力和说明
+            </DialogDescription>
+          </DialogHeader>
+
+          {detailsServer && <ServerDetails server={detailsServer} />}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDetailsServerId(null)}>
+              关闭
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Discovery Dialog */}
       <Dialog open={isDiscoveryDialogOpen} onOpenChange={setIsDiscoveryDialogOpen}>
         <DialogContent className="max-w-2xl">
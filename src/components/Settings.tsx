@@ -3,6 +3,8 @@ import { Moon, Sun, Monitor } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card';
+import SecretsSettings from './SecretsSettings';
+import { DEFAULT_HEALTH_CHECK_INTERVAL, DEFAULT_HEALTH_CHECK_MAX_MISSES } from '../services/health-monitor';
 import { useSettingsStore, useUIStore } from '../stores';
 
 const Settings: React.FC = () => {
@@ -194,6 +196,14 @@ const Settings: React.FC = () => {
                   placeholder="模型名称"
                 />
               </div>
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!settings.openaiVision}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSettings({ openaiVision: e.target.checked })}
+                />
+                <span>模型支持图像输入（工具返回的图像将作为图片发送给模型）</span>
+              </label>
             </>
           )}
 
@@ -240,6 +250,38 @@ const Settings: React.FC = () => {
             </div>
           </div>
 
+          {/* Server health check */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">健康检查间隔（秒）</label>
+              <Input
+                type="number"
+                value={settings.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSettings({ healthCheckInterval: Math.max(5, parseInt(e.target.value) || DEFAULT_HEALTH_CHECK_INTERVAL) })}
+                min={5}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">连续失败几次后标记为错误</label>
+              <Input
+                type="number"
+                value={settings.healthCheckMaxMisses ?? DEFAULT_HEALTH_CHECK_MAX_MISSES}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSettings({ healthCheckMaxMisses: Math.max(1, parseInt(e.target.value) || DEFAULT_HEALTH_CHECK_MAX_MISSES) })}
+                min={1}
+              />
+            </div>
+          </div>
+
+          {/* Tool call confirmation */}
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.confirmRiskyToolCalls !== false}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSettings({ confirmRiskyToolCalls: e.target.checked })}
+            />
+            <span>运行破坏性或访问外部系统的工具前需要确认（只读工具直接运行）</span>
+          </label>
+
           {/* Save Button */}
           <div className="pt-4 border-t">
             <Button 
@@ -251,6 +293,9 @@ const Settings: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Secrets */}
+      <SecretsSettings />
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { MessageSquare, Server, Settings, Menu, Plus } from 'lucide-react';
+import { MessageSquare, Server, FolderOpen, Settings, Menu, Plus } from 'lucide-react';
 import { Button } from './ui/Button';
 import { useUIStore, useChatStore } from '../stores';
 import { cn } from '../utils';
@@ -19,6 +19,11 @@ const Sidebar: React.FC = () => {
       label: 'MCP 服务器',
       icon: Server,
     },
+    {
+      id: 'resources' as const,
+      label: 'MCP 资源',
+      icon: FolderOpen,
+    },
     {
       id: 'settings' as const,
       label: '设置',
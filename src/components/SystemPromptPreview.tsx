@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/Dialog';
+import { useMCPServerStore } from '../stores';
+import { buildSystemPrompt } from '../services/system-prompt';
+import { MCPServer } from '../types';
+
+// Per-server toggles for MCP instructions and a preview of the system prompt sent with each chat turn
+const SystemPromptPreview: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { servers, updateServer } = useMCPServerStore();
+  const enabledServers = servers.filter((server: MCPServer) => !server.disabled);
+  const systemPrompt = buildSystemPrompt(servers);
+
+  const describe = (server: MCPServer) => {
+    if (server.instructions?.trim()) return `${server.instructions.trim().length} 字符`;
+    return server.protocolVersion ? '未提供说明' : '连接后获取';
+  };
+
+  return (
+    <>
+      <button
+        className="inline-flex items-center hover:text-foreground"
+        onClick={() => setIsOpen(true)}
+        title="查看发送给模型的系统提示"
+      >
+        <ScrollText className="h-3 w-3 mr-1" />
+        系统提示{systemPrompt ? '' : '（空）'}
+      </button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>系统提示</DialogTitle>
+            <DialogDescription>
+              启用的 MCP 服务器在 initialize 中返回的说明会组合成系统消息，放在每次请求的最前面
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {enabledServers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">没有启用的服务器</p>
+            ) : (
+              <div className="space-y-1">
+                {enabledServers.map((server: MCPServer) => (
+                  <label key={server.id} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={server.includeInstructions !== false}
+                        disabled={!server.instructions?.trim()}
+                        onChange={(e) => updateServer(server.id, { includeInstructions: e.target.checked })}
+                      />
+                      <span>{server.name}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">{describe(server)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {systemPrompt ? (
+              <pre className="text-xs whitespace-pre-wrap bg-muted p-3 rounded max-h-96 overflow-y-auto">
+                {systemPrompt}
+              </pre>
+            ) : (
+              <p className="text-sm text-muted-foreground">当前不会发送系统提示</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              关闭
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SystemPromptPreview;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { isDestructiveTool, isOpenWorldTool } from '../services/tool-approval';
+import { MCPToolAnnotations } from '../types';
+import { cn } from '../utils';
+
+interface ToolAnnotationBadgesProps {
+  annotations?: MCPToolAnnotations;
+  className?: string;
+}
+
+// Badges for a tool's behaviour hints, with spec defaults applied to missing ones
+const ToolAnnotationBadges: React.FC<ToolAnnotationBadgesProps> = ({ annotations, className }) => {
+  const badges: Array<{ label: string; title: string; className: string }> = [];
+
+  if (annotations?.readOnlyHint) {
+    badges.push({ label: '只读', title: 'readOnlyHint：不会修改环境', className: 'bg-green-100 text-green-700' });
+  } else if (isDestructiveTool(annotations)) {
+    badges.push({
+      label: '破坏性',
+      title: annotations?.destructiveHint ? 'destructiveHint：可能删除或覆盖数据' : '未声明 destructiveHint，按规范视为破坏性',
+      className: 'bg-red-100 text-red-700',
+    });
+  }
+  if (annotations?.idempotentHint) {
+    badges.push({ label: '幂等', title: 'idempotentHint：重复调用不会产生额外影响', className: 'bg-blue-100 text-blue-700' });
+  }
+  if (isOpenWorldTool(annotations)) {
+    badges.push({
+      label: '开放世界',
+      title: annotations?.openWorldHint ? 'openWorldHint：会访问外部系统' : '未声明 openWorldHint，按规范视为访问外部系统',
+      className: 'bg-yellow-100 text-yellow-700',
+    });
+  }
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {badges.map((badge) => (
+        <span key={badge.label} title={badge.title} className={cn('text-[10px] px-1.5 py-0.5 rounded', badge.className)}>
+          {badge.label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default ToolAnnotationBadges;
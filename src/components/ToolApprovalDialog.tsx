@@ -0,0 +1,77 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/Dialog';
+import ToolAnnotationBadges from './ToolAnnotationBadges';
+import { useToolApprovalStore } from '../stores';
+import { approveToolCall, denyToolCall } from '../services/tool-approval';
+
+function formatArguments(args: unknown): string {
+  if (typeof args === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(args), null, 2);
+    } catch {
+      return args;
+    }
+  }
+  return JSON.stringify(args ?? {}, null, 2);
+}
+
+// Confirmation for tool calls the model wants to run on destructive or open-world tools
+const ToolApprovalDialog: React.FC = () => {
+  const { requests } = useToolApprovalStore();
+  const current = requests[0];
+
+  return (
+    <Dialog
+      open={!!current}
+      onOpenChange={(open) => {
+        if (!open && current) denyToolCall(current);
+      }}
+    >
+      <DialogContent className="max-w-xl">
+        {current && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center space-x-2">
+                <ShieldAlert className="h-5 w-5 text-yellow-500" />
+                <span>确认工具调用</span>
+              </DialogTitle>
+              <DialogDescription>
+                AI 请求调用服务器 {current.serverName} 的工具 {current.annotations?.title || current.toolName}，
+                该工具可能修改数据或访问外部系统。
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <code className="text-sm">{current.toolName}</code>
+                <ToolAnnotationBadges annotations={current.annotations} />
+              </div>
+              <div>
+                <label className="text-sm font-medium">参数</label>
+                <pre className="text-xs whitespace-pre-wrap bg-muted p-3 rounded max-h-64 overflow-y-auto">
+                  {formatArguments(current.arguments)}
+                </pre>
+              </div>
+              {requests.length > 1 && (
+                <p className="text-xs text-muted-foreground">还有 {requests.length - 1} 个工具调用等待确认</p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => denyToolCall(current)}>
+                拒绝
+              </Button>
+              <Button onClick={() => approveToolCall(current)}>
+                允许运行
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ToolApprovalDialog;
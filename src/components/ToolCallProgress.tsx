@@ -0,0 +1,75 @@
+import React from 'react';
+import { Loader2, Square, Wrench } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { ToolProgress } from '../services/mcp-tool-handler';
+
+export interface RunningToolCall {
+  id: string;
+  name: string;
+  progress?: ToolProgress;
+  cancelled?: boolean;
+}
+
+interface ToolCallProgressProps {
+  tools: RunningToolCall[];
+  onCancel: (id: string) => void;
+}
+
+// Live progress of the tool calls currently executing, with per-call cancel buttons
+const ToolCallProgress: React.FC<ToolCallProgressProps> = ({ tools, onCancel }) => {
+  return (
+    <div className="flex justify-start">
+      <Card className="bg-muted w-full max-w-[80%]">
+        <div className="p-4 space-y-3">
+          {tools.map((tool) => {
+            const { progress, total, message } = tool.progress || {};
+            const percent = progress !== undefined && total ? Math.min(100, (progress / total) * 100) : null;
+
+            return (
+              <div key={tool.id} className="space-y-1">
+                <div className="flex items-center justify-between space-x-2">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <Wrench className="h-4 w-4 flex-shrink-0" />
+                    <span className="text-sm font-medium truncate">{tool.name}</span>
+                    {!tool.cancelled && <Loader2 className="h-3 w-3 animate-spin flex-shrink-0" />}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onCancel(tool.id)}
+                    disabled={tool.cancelled}
+                    title="取消工具调用"
+                  >
+                    <Square className="h-3 w-3 mr-1" />
+                    {tool.cancelled ? '正在取消...' : '取消'}
+                  </Button>
+                </div>
+
+                <div className="h-2 w-full rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  {percent !== null ? (
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                  ) : (
+                    // Servers that never report a total get an indeterminate bar
+                    <div className="h-full w-1/3 bg-blue-500 animate-pulse" />
+                  )}
+                </div>
+
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span className="truncate">{message || (progress === undefined ? '等待进度...' : '')}</span>
+                  {progress !== undefined && (
+                    <span className="flex-shrink-0 ml-2">
+                      {percent !== null ? `${Math.round(percent)}%` : progress}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ToolCallProgress;
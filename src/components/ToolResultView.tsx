@@ -0,0 +1,163 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import ContentBlockView from './ContentBlockView';
+import { useMCPServerStore } from '../stores';
+import { ChatToolResult, MCPServer } from '../types';
+
+const MAX_DEPTH = 4;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Arrays of flat objects read best as a table
+function tableColumns(items: unknown[]): string[] | null {
+  if (items.length === 0 || !items.every(isPlainObject)) return null;
+  const columns = Array.from(new Set(items.flatMap((item) => Object.keys(item as object))));
+  const isFlat = items.every((item) =>
+    Object.values(item as object).every((value) => value === null || typeof value !== 'object')
+  );
+  return isFlat && columns.length <= 8 ? columns : null;
+}
+
+const Primitive: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null || value === undefined) {
+    return <span className="text-muted-foreground">null</span>;
+  }
+  if (typeof value === 'boolean') {
+    return <span className={value ? 'text-green-600' : 'text-red-600'}>{String(value)}</span>;
+  }
+  if (typeof value === 'number') {
+    return <span className="text-blue-600">{value}</span>;
+  }
+  return <span className="whitespace-pre-wrap break-words">{String(value)}</span>;
+};
+
+// Structured tool output as nested key/value lists and tables
+const StructuredValue: React.FC<{ value: unknown; depth?: number }> = ({ value, depth = 0 }) => {
+  if (depth >= MAX_DEPTH && value && typeof value === 'object') {
+    return <code className="text-xs break-all">{JSON.stringify(value)}</code>;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return <span className="text-muted-foreground">[]</span>;
+
+    const columns = tableColumns(value);
+    if (columns) {
+      return (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                {columns.map((column) => (
+                  <th key={column} className="border px-2 py-1 text-left font-medium bg-background/50">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {value.map((row, index) => (
+                <tr key={index}>
+                  {columns.map((column) => (
+                    <td key={column} className="border px-2 py-1 align-top">
+                      <Primitive value={(row as Record<string, unknown>)[column]} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    return (
+      <ol className="list-decimal pl-5 space-y-1">
+        {value.map((item, index) => (
+          <li key={index}>
+            <StructuredValue value={item} depth={depth + 1} />
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return <span className="text-muted-foreground">{'{}'}</span>;
+
+    return (
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+        {entries.map(([key, item]) => (
+          <React.Fragment key={key}>
+            <dt className="font-medium text-muted-foreground">{key}</dt>
+            <dd className="min-w-0">
+              <StructuredValue value={item} depth={depth + 1} />
+            </dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    );
+  }
+
+  return <Primitive value={value} />;
+};
+
+interface ToolResultViewProps {
+  results: ChatToolResult[];
+}
+
+// Tool call results in a chat message: structured output, content blocks, validation failures and errors
+const ToolResultView: React.FC<ToolResultViewProps> = ({ results }) => {
+  const { servers } = useMCPServerStore();
+
+  return (
+    <div className="space-y-3">
+      {results.map((result) => {
+        const callResult = result.result && typeof result.result === 'object' ? result.result : null;
+        const failed = !!result.error || !!callResult?.isError;
+        const serverName = result.toolName?.split('__')[0];
+        const server = servers.find((s: MCPServer) => s.name === serverName);
+        const content: ContentBlock[] = Array.isArray(callResult?.content) ? callResult.content : [];
+
+        return (
+          <div key={result.toolCallId} className="rounded border bg-background/50 p-3 text-sm space-y-2">
+            <div className="flex items-center space-x-2 font-medium">
+              {failed ? (
+                <XCircle className="h-4 w-4 text-red-500" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 text-green-500" />
+              )}
+              <code className="text-xs">{result.toolName || result.toolCallId}</code>
+            </div>
+
+            {result.validationError && (
+              <div className="flex items-start space-x-2 p-2 rounded border border-yellow-300 bg-yellow-50 text-xs text-yellow-800">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>结构化输出不符合工具声明的 outputSchema：{result.validationError}</span>
+              </div>
+            )}
+
+            {result.error ? (
+              <p className="text-xs text-red-600">{result.error}</p>
+            ) : callResult?.structuredContent !== undefined ? (
+              <>
+                <div className="text-xs">
+                  <StructuredValue value={callResult.structuredContent} />
+                </div>
+                {/* The text blocks usually repeat structuredContent; media and links do not */}
+                <ContentBlockView blocks={content.filter((block) => block.type !== 'text')} server={server} />
+              </>
+            ) : callResult ? (
+              <ContentBlockView blocks={content} server={server} />
+            ) : (
+              <pre className="text-xs whitespace-pre-wrap break-words">{String(result.result ?? '')}</pre>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ToolResultView;
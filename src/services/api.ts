@@ -1,5 +1,7 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { APIResponse, StreamResponse, LLMProvider, MCPServer } from '../types';
+import { resolveHeaders } from './secrets';
+import { CLIENT_PROTOCOL_VERSION } from './protocol';
 
 // Base API client
 class APIClient {
@@ -219,7 +221,7 @@ export class MCPServerService {
       timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
-        ...server.config?.headers,
+        ...resolveHeaders(server.config?.headers),
       },
     });
   }
@@ -227,7 +229,7 @@ export class MCPServerService {
   async connect(): Promise<boolean> {
     try {
       const response = await this.client.post('/mcp/initialize', {
-        protocolVersion: '2024-11-05',
+        protocolVersion: CLIENT_PROTOCOL_VERSION,
         capabilities: {
           roots: { listChanged: true },
           sampling: {},
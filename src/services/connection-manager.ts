@@ -0,0 +1,163 @@
+import { useMCPServerStore, useServerHealthStore } from '../stores';
+import { MCPClientService } from './mcp-client';
+import { MCPServer } from '../types';
+
+export interface ConnectionTestResult {
+  sessionId: string | null;
+  transportType: MCPServer['type'];
+  tools: any[];
+  resources: any[];
+  resourceTemplates: any[];
+  prompts: any[];
+}
+
+const PROBE_TIMEOUT = 10000;
+
+// Active connections, one per server
+const connections = new Map<string, MCPClientService>();
+// Connections still being established, so concurrent callers share one attempt
+const pendingConnections = new Map<string, Promise<MCPClientService>>();
+
+/**
+ * Owner of every MCP connection in the app. Chat, server management, the
+ * resource explorer and background services all go through here, so the
+ * status shown for a server is the status of the connection actually in use.
+ */
+export class MCPConnectionManager {
+  private static instance: MCPConnectionManager;
+
+  static getInstance(): MCPConnectionManager {
+    if (!MCPConnectionManager.instance) {
+      MCPConnectionManager.instance = new MCPConnectionManager();
+    }
+    return MCPConnectionManager.instance;
+  }
+
+  // Get the shared connection for a server, connecting on first use
+  async getConnection(server: MCPServer): Promise<MCPClientService> {
+    const existing = connections.get(server.id);
+    if (existing && (existing.connected || existing.reconnecting)) return existing;
+
+    if (server.disabled) {
+      throw new Error(`Server ${server.name} is disabled`);
+    }
+
+    let pending = pendingConnections.get(server.id);
+    if (!pending && existing) {
+      // The connection gave up reconnecting: try again rather than hand out a dead client
+      pending = existing.retryNow().then((connected) => {
+        if (!connected) {
+          throw new Error(`Failed to connect to server ${server.name}`);
+        }
+        return existing;
+      }).finally(() => pendingConnections.delete(server.id));
+      pendingConnections.set(server.id, pending);
+    } else if (!pending) {
+      pending = (async () => {
+        // Status changes, including supervised reconnects, are mirrored into the server store
+        const connection = new MCPClientService(server, (status, details) => {
+          useMCPServerStore.getState().updateServer(server.id, {
+            status,
+            reconnectAttempt: details?.attempt,
+            ...(status === 'connected' ? { lastConnected: new Date() } : {}),
+          });
+        });
+        const connected = await connection.connect();
+        if (!connected) {
+          throw new Error(`Failed to connect to server ${server.name}`);
+        }
+        connections.set(server.id, connection);
+        return connection;
+      })().finally(() => pendingConnections.delete(server.id));
+      pendingConnections.set(server.id, pending);
+    }
+
+    return pending;
+  }
+
+  // Existing connection for a server, without connecting
+  findConnection(serverId: string): MCPClientService | undefined {
+    return connections.get(serverId);
+  }
+
+  // "Retry now": skip the reconnect backoff, or connect again after giving up
+  async retryConnection(server: MCPServer): Promise<boolean> {
+    const existing = connections.get(server.id);
+    if (existing?.connected && currentStatus(server.id) === 'error') {
+      // Health checks marked the server down while its transport still looks open
+      if (await this.probe(server.id, existing)) return true;
+      return (await existing.reconnect()) && this.probe(server.id, existing);
+    }
+    if (existing) {
+      return existing.retryNow();
+    }
+
+    try {
+      await this.getConnection(server);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Close a server's connection, waiting for a connect that is still in flight
+  async disconnect(serverId: string): Promise<void> {
+    const pending = pendingConnections.get(serverId);
+    if (pending) {
+      await pending.catch(() => undefined);
+    }
+
+    const connection = connections.get(serverId);
+    connections.delete(serverId);
+    if (connection) {
+      await connection.disconnect();
+    }
+
+    useMCPServerStore.getState().updateServer(serverId, {
+      status: 'disconnected',
+      reconnectAttempt: undefined,
+    });
+    useServerHealthStore.getState().clearHealth(serverId);
+  }
+
+  // Ping a connection, recording the sample and marking the server connected when it answers
+  private async probe(serverId: string, connection: MCPClientService): Promise<boolean> {
+    try {
+      const latency = await connection.ping(PROBE_TIMEOUT);
+      useServerHealthStore.getState().recordSample(serverId, { latency });
+      useMCPServerStore.getState().updateServer(serverId, { status: 'connected' });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Re-fetch every catalog over the shared connection, bypassing the cache
+  async testConnection(server: MCPServer): Promise<ConnectionTestResult> {
+    const connection = await this.getConnection(server);
+    connection.invalidateCatalog();
+
+    const [tools, resources, resourceTemplates, prompts] = await Promise.all([
+      connection.listTools(),
+      connection.listResources(),
+      connection.listResourceTemplates(),
+      connection.listPrompts(),
+    ]);
+
+    return {
+      sessionId: connection.sessionId,
+      transportType: connection.transportType ?? server.type,
+      tools,
+      resources,
+      resourceTemplates,
+      prompts,
+    };
+  }
+}
+
+// Status of a server as currently shown in the store
+export function currentStatus(serverId: string): MCPServer['status'] | undefined {
+  return useMCPServerStore.getState().servers.find((s: MCPServer) => s.id === serverId)?.status;
+}
+
+export const connectionManager = MCPConnectionManager.getInstance();
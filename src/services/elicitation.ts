@@ -0,0 +1,175 @@
+import type { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { useElicitationStore } from '../stores';
+import { MCPServer } from '../types';
+
+export type ElicitationParams = ElicitRequest['params'];
+
+// Primitive property of an elicitation requestedSchema
+export interface ElicitationField {
+  name: string;
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  required: boolean;
+  enum?: string[];
+  enumNames?: string[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  default?: unknown;
+}
+
+export type ElicitationValues = Record<string, string | number | boolean>;
+
+// An elicitation/create request waiting for the user's answer
+export interface PendingElicitationRequest {
+  id: string;
+  serverId: string;
+  serverName: string;
+  params: ElicitationParams;
+  resolve: (result: ElicitResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Queue an elicitation request for the user. Resolves with accept, decline or
+ * cancel; rejects if the server cancels the request first.
+ */
+export function requestElicitation(
+  server: MCPServer,
+  params: ElicitationParams,
+  signal?: AbortSignal
+): Promise<ElicitResult> {
+  return new Promise((resolve, reject) => {
+    const { enqueue, remove } = useElicitationStore.getState();
+    const id = enqueue({ serverId: server.id, serverName: server.name, params, resolve, reject });
+
+    signal?.addEventListener('abort', () => {
+      remove(id);
+      reject(new Error('Elicitation request cancelled by server'));
+    });
+  });
+}
+
+export function respondElicitation(request: PendingElicitationRequest, result: ElicitResult): void {
+  useElicitationStore.getState().remove(request.id);
+  request.resolve(result);
+}
+
+/**
+ * Flatten requestedSchema into form fields. Elicitation schemas are flat
+ * objects whose properties are strings, numbers, booleans or enums.
+ */
+export function getElicitationFields(params: ElicitationParams): ElicitationField[] {
+  // URL-mode elicitations send the user to a page and carry no form schema
+  const schema = 'requestedSchema' in params ? params.requestedSchema : undefined;
+  const required: string[] = schema?.required || [];
+
+  return Object.entries<any>(schema?.properties || {}).map(([name, property]) => {
+    // Titled enums may be expressed as oneOf: [{ const, title }]
+    const oneOf: any[] | undefined = property.oneOf;
+    return {
+      name,
+      type: property.type === 'integer' || property.type === 'number' || property.type === 'boolean'
+        ? property.type
+        : 'string',
+      title: property.title,
+      description: property.description,
+      required: required.includes(name),
+      enum: property.enum || oneOf?.map((option) => option.const),
+      enumNames: property.enumNames || oneOf?.map((option) => option.title || option.const),
+      format: property.format,
+      minimum: property.minimum,
+      maximum: property.maximum,
+      minLength: property.minLength,
+      maxLength: property.maxLength,
+      default: property.default,
+    };
+  });
+}
+
+export function getDefaultValues(fields: ElicitationField[]): Record<string, string | boolean> {
+  const values: Record<string, string | boolean> = {};
+  for (const field of fields) {
+    if (field.type === 'boolean') {
+      values[field.name] = field.default === true;
+    } else if (field.format === 'date-time' && field.default !== undefined) {
+      values[field.name] = toDateTimeLocal(String(field.default));
+    } else {
+      values[field.name] = field.default !== undefined ? String(field.default) : '';
+    }
+  }
+  return values;
+}
+
+// datetime-local inputs take local time without seconds or offset, e.g. 2025-06-01T09:30
+function toDateTimeLocal(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Convert raw form input to typed content, collecting per-field errors.
+ */
+export function validateElicitationValues(
+  fields: ElicitationField[],
+  input: Record<string, string | boolean>
+): { values: ElicitationValues; errors: Record<string, string> } {
+  const values: ElicitationValues = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of fields) {
+    const raw = input[field.name];
+
+    if (field.type === 'boolean') {
+      values[field.name] = raw === true;
+      continue;
+    }
+
+    const text = typeof raw === 'string' ? raw.trim() : '';
+    if (!text) {
+      if (field.required) errors[field.name] = '此项为必填项';
+      continue;
+    }
+
+    if (field.type === 'number' || field.type === 'integer') {
+      const num = Number(text);
+      if (Number.isNaN(num) || (field.type === 'integer' && !Number.isInteger(num))) {
+        errors[field.name] = field.type === 'integer' ? '请输入整数' : '请输入数字';
+      } else if (field.minimum !== undefined && num < field.minimum) {
+        errors[field.name] = `不能小于 ${field.minimum}`;
+      } else if (field.maximum !== undefined && num > field.maximum) {
+        errors[field.name] = `不能大于 ${field.maximum}`;
+      } else {
+        values[field.name] = num;
+      }
+      continue;
+    }
+
+    if (field.enum && !field.enum.includes(text)) {
+      errors[field.name] = '请选择有效的选项';
+    } else if (field.minLength !== undefined && text.length < field.minLength) {
+      errors[field.name] = `至少需要 ${field.minLength} 个字符`;
+    } else if (field.maxLength !== undefined && text.length > field.maxLength) {
+      errors[field.name] = `最多 ${field.maxLength} 个字符`;
+    } else if (field.format === 'email' && !/^[^\s@]+@[^\s@]+$/.test(text)) {
+      errors[field.name] = '请输入有效的邮箱地址';
+    } else if (field.format === 'date-time') {
+      // The input's local time becomes a full RFC 3339 timestamp in UTC
+      const date = new Date(text);
+      if (Number.isNaN(date.getTime())) {
+        errors[field.name] = '请输入有效的日期时间';
+      } else {
+        values[field.name] = date.toISOString();
+      }
+    } else {
+      values[field.name] = text;
+    }
+  }
+
+  return { values, errors };
+}
@@ -0,0 +1,53 @@
+import { useMCPServerStore, useServerHealthStore } from '../stores';
+import { connectionManager, currentStatus } from './connection-manager';
+import { HealthSample, MCPServer } from '../types';
+
+// Defaults for the background health check when settings do not override them
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 30;
+export const DEFAULT_HEALTH_CHECK_MAX_MISSES = 3;
+const MAX_PING_TIMEOUT = 10000;
+
+/**
+ * Ping a server over its existing connection and record the result. Servers
+ * without an open connection are skipped rather than connected. After
+ * `maxMisses` failed pings in a row a connected server is marked as error; the
+ * next successful ping marks it connected again.
+ */
+export async function checkServerHealth(
+  server: MCPServer,
+  interval = DEFAULT_HEALTH_CHECK_INTERVAL,
+  maxMisses = DEFAULT_HEALTH_CHECK_MAX_MISSES
+): Promise<void> {
+  const connection = connectionManager.findConnection(server.id);
+  if (!connection?.connected) return;
+
+  const { recordSample } = useServerHealthStore.getState();
+  const { updateServer } = useMCPServerStore.getState();
+
+  try {
+    const latency = await connection.ping(Math.min(interval * 1000, MAX_PING_TIMEOUT));
+    recordSample(server.id, { latency });
+
+    if (currentStatus(server.id) === 'error') {
+      updateServer(server.id, { status: 'connected' });
+    }
+  } catch (error) {
+    recordSample(server.id, {
+      latency: null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    const misses = useServerHealthStore.getState().consecutiveMisses[server.id] || 0;
+    if (misses >= maxMisses && currentStatus(server.id) === 'connected') {
+      console.warn(`Server ${server.name} missed ${misses} pings in a row`);
+      updateServer(server.id, { status: 'error' });
+    }
+  }
+}
+
+// Share of successful pings as a percentage, or null before the first ping
+export function getUptime(samples: HealthSample[]): number | null {
+  if (samples.length === 0) return null;
+  const ok = samples.filter((sample) => sample.latency !== null).length;
+  return Math.round((ok / samples.length) * 1000) / 10;
+}
@@ -1,24 +1,145 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import { MCPServer } from '../types';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport, SseError } from '@modelcontextprotocol/sdk/client/sse.js';
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolResultSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { requestSampling } from './sampling';
+import { requestElicitation } from './elicitation';
+import { collectPages } from './pagination';
+import { BrowserOAuthProvider } from './oauth';
+import { resolveHeaders } from './secrets';
+import { SavedSession, clearSession, loadSession, saveLastEventId, saveSession } from './sessions';
+import { DEFAULT_RECONNECT_ATTEMPTS, getReconnectDelay } from './reconnect';
+import { useMCPServerStore, useServerLogStore } from '../stores';
+import { MCPLogLevel, MCPRoot, MCPServer } from '../types';
+import { getServerEndpoint } from '../utils';
+
+export type MCPTransport = StreamableHTTPClientTransport | SSEClientTransport;
+
+export type StatusChangeHandler = (
+  status: MCPServer['status'],
+  details?: { attempt: number; maxAttempts: number }
+) => void;
+
+// Server lists cached per connection until the server reports a change
+export type CatalogKind = 'tools' | 'prompts' | 'resources' | 'resourceTemplates';
+
+/**
+ * Create the transport for a server. 'sse' is the legacy HTTP+SSE transport
+ * from protocol version 2024-11-05.
+ */
+function createTransport(server: MCPServer, type: MCPServer['type'], sessionId?: string): MCPTransport {
+  const endpoint = getServerEndpoint(server);
+  const requestInit: RequestInit = { headers: resolveHeaders(server.config?.headers) };
+  // Attaches stored OAuth tokens and runs discovery/refresh when the server answers 401
+  const authProvider = new BrowserOAuthProvider(server);
+
+  const transport = type === 'sse'
+    ? new SSEClientTransport(endpoint, { requestInit, authProvider })
+    // A known session ID makes Client.connect skip initialize and reuse the session
+    : new StreamableHTTPClientTransport(endpoint, { requestInit, authProvider, sessionId });
+  trackProtocolVersion(transport);
+  return transport;
+}
+
+// Protocol version negotiated on each transport. Client.connect hands it to
+// setProtocolVersion, and the SSE transport has no getter for it.
+const negotiatedVersions = new WeakMap<MCPTransport, string>();
+
+function trackProtocolVersion(transport: MCPTransport): void {
+  const setProtocolVersion = transport.setProtocolVersion.bind(transport);
+  transport.setProtocolVersion = (version: string) => {
+    negotiatedVersions.set(transport, version);
+    setProtocolVersion(version);
+  };
+}
+
+// Transport errors that mean the server went away, as opposed to a single failed request
+function isConnectionLostError(error: Error): boolean {
+  if (error instanceof StreamableHTTPError || error instanceof SseError) {
+    // 404: the server no longer knows our session, e.g. after a restart
+    return error.code === 404 || error.code === 502 || error.code === 503 || error.code === 504;
+  }
+  // fetch rejects with a TypeError when the server is unreachable
+  return error instanceof TypeError || error.message.includes('Maximum reconnection attempts');
+}
+
+// Servers that only speak HTTP+SSE reject the streamable HTTP POST with 404/405
+function shouldFallbackToSSE(error: unknown): boolean {
+  return error instanceof StreamableHTTPError && (error.code === 404 || error.code === 405);
+}
+
+/**
+ * Connect to a server over the transport named by server.type. Streamable HTTP
+ * servers that answer 404/405 are retried over HTTP+SSE with a fresh client.
+ */
+async function connectClient(
+  server: MCPServer,
+  createClient: () => Client
+): Promise<{ client: Client; transport: MCPTransport; transportType: MCPServer['type'] }> {
+  const client = createClient();
+  const transport = createTransport(server, server.type);
+
+  try {
+    await client.connect(transport);
+    return { client, transport, transportType: server.type };
+  } catch (error) {
+    if (server.type !== 'streamable-http' || !shouldFallbackToSSE(error)) {
+      throw error;
+    }
+
+    console.warn(`Streamable HTTP rejected by ${server.name}, falling back to SSE transport`);
+    const sseClient = createClient();
+    const sseTransport = createTransport(server, 'sse');
+    await sseClient.connect(sseTransport);
+    return { client: sseClient, transport: sseTransport, transportType: 'sse' };
+  }
+}
 
 /**
- * Official MCP Client Service using StreamableHTTPClientTransport
- * Replaces the custom streamable-http.ts implementation
+ * Official MCP Client Service using the SDK transports
+ * (Streamable HTTP, or legacy HTTP+SSE for servers typed 'sse')
  */
 export class MCPClientService {
   private client: Client;
-  private transport: StreamableHTTPClientTransport;
   private server: MCPServer;
-  private onStatusChange?: (status: MCPServer['status']) => void;
+  private onStatusChange?: StatusChangeHandler;
   private isConnected: boolean = false;
+  // Supervised reconnection state; closedByUser stops it after disconnect()
+  private closedByUser = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private isReconnecting = false;
+  private activeTransportType?: MCPServer['type'];
+  private unsubscribeRoots?: () => void;
+  private notificationListeners = new Map<string, Set<(params: any) => void>>();
+  // Reference counts per subscribed resource URI
+  private resourceSubscriptions = new Map<string, number>();
+  private catalogCache = new Map<CatalogKind, Promise<any[]>>();
+  private transport?: MCPTransport;
+  // Initialize result of a session resumed after a reload, where initialize is skipped
+  private resumedSession?: SavedSession;
 
-  constructor(server: MCPServer, onStatusChange?: (status: MCPServer['status']) => void) {
+  constructor(server: MCPServer, onStatusChange?: StatusChangeHandler) {
     this.server = server;
     this.onStatusChange = onStatusChange;
-    
-    // Create client with proper configuration
-    this.client = new Client(
+    this.client = this.createClient();
+  }
+
+  // Create client with proper configuration and server-to-client request handlers
+  private createClient(): Client {
+    const client = new Client(
       {
         name: 'mcp-web-client',
         version: '1.0.0',
@@ -27,33 +148,170 @@ export class MCPClientService {
         capabilities: {
           roots: { listChanged: true },
           sampling: {},
+          elicitation: {},
         },
       }
     );
 
-    // Create StreamableHTTPClientTransport
-    const endpoint = new URL(server.config?.endpoint || '/mcp', window.location.origin);
-    this.transport = new StreamableHTTPClientTransport(endpoint);
+    // sampling/createMessage is routed through the configured LLM after user approval
+    client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      requestSampling(this.server, request.params, extra.signal)
+    );
+
+    // elicitation/create is answered through a schema-driven form
+    client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+      requestElicitation(this.server, request.params, extra.signal)
+    );
+
+    client.setRequestHandler(ListRootsRequestSchema, () => ({
+      roots: this.getRoots(),
+    }));
+
+    // Server notifications are fanned out to listeners registered via onNotification
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      this.emitNotification(notification.method, notification.params);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, (notification) => {
+      this.invalidateCatalog('resources');
+      this.invalidateCatalog('resourceTemplates');
+      this.emitNotification(notification.method, notification.params);
+    });
+    client.setNotificationHandler(ToolListChangedNotificationSchema, (notification) => {
+      this.invalidateCatalog('tools');
+      this.emitNotification(notification.method, notification.params);
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, (notification) => {
+      this.invalidateCatalog('prompts');
+      this.emitNotification(notification.method, notification.params);
+    });
+
+    // Log entries are collected even while no log console is open
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      const { level, logger, data } = notification.params;
+      useServerLogStore.getState().addLog(this.server.id, { level, logger, data });
+    });
+
+    return client;
+  }
+
+  private emitNotification(method: string, params: any): void {
+    this.notificationListeners.get(method)?.forEach((listener) => {
+      try {
+        listener(params);
+      } catch (error) {
+        console.error(`Notification listener for ${method} failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Return the cached list for kind, loading it on first use. Failed loads are
+   * not cached so the next call retries.
+   */
+  private getCatalog(kind: CatalogKind, load: () => Promise<any[]>): Promise<any[]> {
+    let catalog = this.catalogCache.get(kind);
+    if (!catalog) {
+      catalog = load();
+      this.catalogCache.set(kind, catalog);
+      catalog.catch(() => {
+        if (this.catalogCache.get(kind) === catalog) this.catalogCache.delete(kind);
+      });
+    }
+    return catalog;
+  }
+
+  // Drop cached lists so the next list call asks the server again
+  invalidateCatalog(kind?: CatalogKind): void {
+    if (kind) {
+      this.catalogCache.delete(kind);
+    } else {
+      this.catalogCache.clear();
+    }
+  }
+
+  /**
+   * Listen for a server notification. Returns a function that removes the listener.
+   */
+  onNotification(method: string, handler: (params: any) => void): () => void {
+    let listeners = this.notificationListeners.get(method);
+    if (!listeners) {
+      listeners = new Set();
+      this.notificationListeners.set(method, listeners);
+    }
+    listeners.add(handler);
+
+    return () => {
+      listeners!.delete(handler);
+    };
+  }
+
+  // Roots are read from the store so edits apply without reconnecting
+  private getRoots(): MCPRoot[] {
+    const server = useMCPServerStore.getState().servers.find((s) => s.id === this.server.id);
+    return server?.roots || [];
+  }
+
+  // Send notifications/roots/list_changed whenever this server's roots are edited
+  private watchRoots(): void {
+    this.unsubscribeRoots?.();
+    this.unsubscribeRoots = useMCPServerStore.subscribe((state, prevState) => {
+      const roots = state.servers.find((s) => s.id === this.server.id)?.roots;
+      const prevRoots = prevState.servers.find((s) => s.id === this.server.id)?.roots;
+      if (roots === prevRoots || !this.isConnected) return;
+
+      this.client.sendRootsListChanged().catch((error) => {
+        console.error('Failed to send roots list changed notification:', error);
+      });
+    });
   }
 
   async connect(): Promise<boolean> {
+    this.closedByUser = false;
+    this.cancelReconnect();
+    return this.establish();
+  }
+
+  private async establish(): Promise<boolean> {
+    const reconnecting = this.reconnectAttempt > 0;
+
     try {
-      // Notify connecting status
-      this.onStatusChange?.('connecting');
+      // Notify connecting status (reconnect attempts keep showing 'reconnecting')
+      if (!reconnecting) {
+        this.onStatusChange?.('connecting');
+      }
       
-      // Connect using official SDK
-      await this.client.connect(this.transport);
+      // Resume the session saved before a reload, otherwise connect using the
+      // official SDK, falling back to SSE where needed
+      const resumed = await this.resumeSession();
+      const { client, transport, transportType } = resumed ?? await connectClient(this.server, () => this.createClient());
+      this.client = client;
+      this.transport = transport;
+      this.activeTransportType = transportType;
+      this.supervise(client);
+      this.invalidateCatalog();
+      if (!resumed) {
+        this.persistSession();
+      }
       
       this.isConnected = true;
+      this.recordInitializeResult();
+      this.watchRoots();
+      await this.applyLogLevel();
+      if (!resumed) {
+        await this.resubscribeResources();
+      }
       
       // Notify connected status
+      this.reconnectAttempt = 0;
       this.onStatusChange?.('connected');
       return true;
     } catch (error) {
       console.error('Failed to connect to MCP server:', error);
       
       // Enhanced error handling
-      if (error instanceof Error) {
+      if (error instanceof UnauthorizedError) {
+        console.error('需要登录：服务器要求 OAuth 授权，请在服务器管理中登录。');
+      } else if (error instanceof Error) {
         if (error.message.includes('CORS') || error.message.includes('Access-Control-Allow-Origin')) {
           console.error('CORS错误：无法连接到MCP服务器。请确保服务器已正确配置CORS策略。');
         } else if (error.message.includes('Failed to fetch')) {
@@ -62,12 +320,199 @@ export class MCPClientService {
       }
       
       // Notify error status
-      this.onStatusChange?.('error');
+      if (!reconnecting) {
+        this.onStatusChange?.('error');
+      }
       return false;
     }
   }
 
+  // Start reconnecting when the connected client's transport closes or fails
+  private supervise(client: Client): void {
+    client.onclose = () => {
+      if (client === this.client) this.handleConnectionLost();
+    };
+    client.onerror = (error) => {
+      if (client === this.client && isConnectionLostError(error)) {
+        console.warn(`Lost connection to ${this.server.name}:`, error);
+        this.handleConnectionLost();
+      }
+    };
+  }
+
+  private handleConnectionLost(): void {
+    if (this.closedByUser || !this.isConnected) return;
+
+    this.isConnected = false;
+    this.unsubscribeRoots?.();
+    this.unsubscribeRoots = undefined;
+    this.invalidateCatalog();
+    this.scheduleReconnect();
+  }
+
+  // Wait with jittered exponential backoff, then try again until retryAttempts runs out
+  private scheduleReconnect(): void {
+    const maxAttempts = this.server.config?.retryAttempts ?? DEFAULT_RECONNECT_ATTEMPTS;
+    if (this.reconnectAttempt >= maxAttempts) {
+      console.error(`Giving up reconnecting to ${this.server.name} after ${maxAttempts} attempts`);
+      this.reconnectAttempt = 0;
+      this.onStatusChange?.('error');
+      return;
+    }
+
+    this.reconnectAttempt++;
+    this.onStatusChange?.('reconnecting', { attempt: this.reconnectAttempt, maxAttempts });
+    const delay = getReconnectDelay(this.reconnectAttempt, this.server.config?.retryDelay);
+    this.reconnectTimer = setTimeout(() => this.attemptReconnect(), delay);
+  }
+
+  private async attemptReconnect(): Promise<void> {
+    this.reconnectTimer = undefined;
+    if (this.closedByUser) return;
+
+    // Detach the dead client first so its close does not count as a new loss
+    const staleClient = this.client;
+    this.client = this.createClient();
+    staleClient.close().catch(() => undefined);
+
+    this.isReconnecting = true;
+    const connected = await this.establish().finally(() => {
+      this.isReconnecting = false;
+    });
+    if (!connected && !this.closedByUser) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  /**
+   * Skip the remaining backoff delay and reconnect immediately. After retries
+   * are exhausted this starts a fresh connection attempt.
+   */
+  async retryNow(): Promise<boolean> {
+    if (this.isConnected || this.isReconnecting) return this.isConnected;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      await this.attemptReconnect();
+      return this.isConnected;
+    }
+    return this.connect();
+  }
+
+  /**
+   * Drop the current session and connect again. For connections whose
+   * transport still looks open but whose server stopped answering.
+   */
+  async reconnect(): Promise<boolean> {
+    const staleClient = this.client;
+    this.isConnected = false;
+    this.unsubscribeRoots?.();
+    this.unsubscribeRoots = undefined;
+    this.invalidateCatalog();
+    clearSession(this.server.id);
+
+    this.client = this.createClient();
+    staleClient.close().catch(() => undefined);
+    return this.connect();
+  }
+
+  /**
+   * Reconnect to the Streamable HTTP session saved before a page reload and
+   * resume its SSE stream from the last event ID. Returns null, after clearing
+   * the saved session, if there is none or the server no longer accepts it.
+   */
+  private async resumeSession(): Promise<{ client: Client; transport: MCPTransport; transportType: MCPServer['type'] } | null> {
+    const saved = loadSession(this.server.id);
+    this.resumedSession = undefined;
+    if (!saved || this.server.type !== 'streamable-http') return null;
+
+    const client = this.createClient();
+    const transport = createTransport(this.server, 'streamable-http', saved.sessionId) as StreamableHTTPClientTransport;
+
+    try {
+      await client.connect(transport);
+      if (saved.protocolVersion) {
+        transport.setProtocolVersion(saved.protocolVersion);
+      }
+      // Servers answer 404 for sessions they have dropped
+      await client.ping();
+    } catch (error) {
+      console.warn(`Saved session rejected by ${this.server.name}, re-initializing:`, error);
+      clearSession(this.server.id);
+      await client.close().catch(() => undefined);
+      return null;
+    }
+
+    this.resumedSession = saved;
+    transport
+      .resumeStream(saved.lastEventId ?? '', {
+        onresumptiontoken: (eventId) => saveLastEventId(this.server.id, eventId),
+      })
+      .catch((error) => console.error('Failed to resume SSE stream:', error));
+
+    return { client, transport, transportType: 'streamable-http' };
+  }
+
+  // Save a freshly initialized Streamable HTTP session so a reload can resume it
+  private persistSession(): void {
+    if (!(this.transport instanceof StreamableHTTPClientTransport) || !this.transport.sessionId) {
+      clearSession(this.server.id);
+      return;
+    }
+
+    saveSession(this.server.id, {
+      sessionId: this.transport.sessionId,
+      protocolVersion: this.transport.protocolVersion,
+      capabilities: this.client.getServerCapabilities(),
+      serverInfo: this.client.getServerVersion(),
+      instructions: this.client.getInstructions(),
+    });
+  }
+
+  // Store what the server reported in initialize on its MCPServer record
+  private recordInitializeResult(): void {
+    const capabilities = this.serverCapabilities;
+    const serverInfo = this.client.getServerVersion() ?? this.resumedSession?.serverInfo;
+
+    useMCPServerStore.getState().updateServer(this.server.id, {
+      authRequired: false,
+      protocolVersion: this.protocolVersion,
+      serverInfo: serverInfo && { name: serverInfo.name, version: serverInfo.version, title: serverInfo.title },
+      serverCapabilities: capabilities,
+      capabilities: capabilities ? Object.keys(capabilities) : undefined,
+      instructions: this.client.getInstructions() ?? this.resumedSession?.instructions,
+    });
+  }
+
+  // Restore the log level chosen in the log console; servers reset it per session
+  private async applyLogLevel(): Promise<void> {
+    const level = useMCPServerStore.getState().servers.find((s) => s.id === this.server.id)?.logLevel;
+    if (!level || !this.supportsLogging) return;
+
+    try {
+      await this.client.setLoggingLevel(level);
+    } catch (error) {
+      console.error('Failed to restore log level:', error);
+    }
+  }
+
   async disconnect(): Promise<void> {
+    this.closedByUser = true;
+    this.cancelReconnect();
+    this.unsubscribeRoots?.();
+    this.unsubscribeRoots = undefined;
+    this.invalidateCatalog();
+    // An explicit disconnect ends the session; only reloads resume it
+    clearSession(this.server.id);
+
     try {
       await this.client.close();
       this.isConnected = false;
@@ -82,23 +527,37 @@ export class MCPClientService {
         throw new Error('Client not connected');
       }
       
-      const result = await this.client.listTools();
-      return result.tools || [];
+      return await this.getCatalog('tools', async () => {
+        return collectPages(this.server, '工具', async (cursor) => {
+          const result = await this.client.listTools(cursor ? { cursor } : undefined);
+          return { items: result.tools || [], nextCursor: result.nextCursor };
+        });
+      });
     } catch (error) {
       console.error('Failed to list tools:', error);
       return [];
     }
   }
 
-  async callTool(name: string, arguments_: any): Promise<any> {
+  // options carries onprogress (which makes the SDK send a progress token) and an abort signal.
+  // Sent as a plain request: Client.callTool throws away results whose structuredContent
+  // fails the outputSchema, and the caller validates and reports those itself.
+  async callTool(name: string, arguments_: any, options: RequestOptions = {}): Promise<any> {
     try {
       if (!this.isConnected) {
         throw new Error('Client not connected');
       }
       
-      return await this.client.callTool({
-        name,
-        arguments: arguments_,
+      return await this.client.request({
+        method: 'tools/call',
+        params: {
+          name,
+          arguments: arguments_,
+        },
+      }, CallToolResultSchema, {
+        // Track SSE event IDs so a reload mid-call can resume the response stream
+        onresumptiontoken: (eventId) => saveLastEventId(this.server.id, eventId),
+        ...options,
       });
     } catch (error) {
       console.error('Failed to call tool:', error);
@@ -112,14 +571,36 @@ export class MCPClientService {
         throw new Error('Client not connected');
       }
       
-      const result = await this.client.listResources();
-      return result.resources || [];
+      return await this.getCatalog('resources', async () => {
+        return collectPages(this.server, '资源', async (cursor) => {
+          const result = await this.client.listResources(cursor ? { cursor } : undefined);
+          return { items: result.resources || [], nextCursor: result.nextCursor };
+        });
+      });
     } catch (error) {
       console.error('Failed to list resources:', error);
       return [];
     }
   }
 
+  async listResourceTemplates(): Promise<any[]> {
+    try {
+      if (!this.isConnected) {
+        throw new Error('Client not connected');
+      }
+      
+      return await this.getCatalog('resourceTemplates', async () => {
+        return collectPages(this.server, '资源模板', async (cursor) => {
+          const result = await this.client.listResourceTemplates(cursor ? { cursor } : undefined);
+          return { items: result.resourceTemplates || [], nextCursor: result.nextCursor };
+        });
+      });
+    } catch (error) {
+      console.error('Failed to list resource templates:', error);
+      return [];
+    }
+  }
+
   async readResource(uri: string): Promise<any> {
     try {
       if (!this.isConnected) {
@@ -133,89 +614,178 @@ export class MCPClientService {
     }
   }
 
+  // Subscriptions are reference counted so several views can watch one resource
+  async subscribeResource(uri: string): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Client not connected');
+    }
+
+    const count = this.resourceSubscriptions.get(uri) || 0;
+    this.resourceSubscriptions.set(uri, count + 1);
+    if (count > 0) return;
+
+    try {
+      await this.client.subscribeResource({ uri });
+    } catch (error) {
+      this.resourceSubscriptions.delete(uri);
+      console.error('Failed to subscribe to resource:', error);
+      throw error;
+    }
+  }
+
+  // A new session starts without subscriptions, so restore the ones views still hold
+  private async resubscribeResources(): Promise<void> {
+    await Promise.all(Array.from(this.resourceSubscriptions.keys()).map(async (uri) => {
+      try {
+        await this.client.subscribeResource({ uri });
+      } catch (error) {
+        console.error(`Failed to resubscribe to resource ${uri}:`, error);
+      }
+    }));
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    const count = this.resourceSubscriptions.get(uri) || 0;
+    if (count > 1) {
+      this.resourceSubscriptions.set(uri, count - 1);
+      return;
+    }
+
+    this.resourceSubscriptions.delete(uri);
+    if (count === 0 || !this.isConnected) return;
+
+    try {
+      await this.client.unsubscribeResource({ uri });
+    } catch (error) {
+      console.error('Failed to unsubscribe from resource:', error);
+    }
+  }
+
   async listPrompts(): Promise<any[]> {
     try {
       if (!this.isConnected) {
         throw new Error('Client not connected');
       }
       
-      const result = await this.client.listPrompts();
-      return result.prompts || [];
+      return await this.getCatalog('prompts', async () => {
+        return collectPages(this.server, '提示', async (cursor) => {
+          const result = await this.client.listPrompts(cursor ? { cursor } : undefined);
+          return { items: result.prompts || [], nextCursor: result.nextCursor };
+        });
+      });
     } catch (error) {
       console.error('Failed to list prompts:', error);
       return [];
     }
   }
 
+  async getPrompt(name: string, arguments_: Record<string, string> = {}): Promise<any> {
+    try {
+      if (!this.isConnected) {
+        throw new Error('Client not connected');
+      }
+      
+      return await this.client.getPrompt({
+        name,
+        arguments: arguments_,
+      });
+    } catch (error) {
+      console.error('Failed to get prompt:', error);
+      throw error;
+    }
+  }
+
+  async setLoggingLevel(level: MCPLogLevel): Promise<void> {
+    try {
+      if (!this.isConnected) {
+        throw new Error('Client not connected');
+      }
+
+      await this.client.setLoggingLevel(level);
+    } catch (error) {
+      console.error('Failed to set logging level:', error);
+      throw error;
+    }
+  }
+
+  // Send a ping and return the round-trip time in milliseconds
+  async ping(timeout?: number): Promise<number> {
+    if (!this.isConnected) {
+      throw new Error('Client not connected');
+    }
+
+    const startedAt = performance.now();
+    await this.client.ping({ timeout });
+    return Math.round(performance.now() - startedAt);
+  }
+
+  // Ask the server for completion values of a prompt argument or template variable
+  async complete(
+    ref: { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string },
+    argument: { name: string; value: string },
+    contextArguments: Record<string, string> = {}
+  ): Promise<string[]> {
+    try {
+      if (!this.isConnected) {
+        throw new Error('Client not connected');
+      }
+      if (!this.supportsCompletions) {
+        return [];
+      }
+
+      const result = await this.client.complete({
+        ref,
+        argument,
+        context: { arguments: contextArguments },
+      });
+      return result.completion.values;
+    } catch (error) {
+      console.error('Failed to complete argument:', error);
+      return [];
+    }
+  }
+
   get connected(): boolean {
     return this.isConnected;
   }
 
+  // Whether a supervised reconnect is waiting out its backoff or in flight
+  get reconnecting(): boolean {
+    return this.isReconnecting || !!this.reconnectTimer;
+  }
+
   get serverInfo(): MCPServer {
     return this.server;
   }
-}
-
-/**
- * Test MCP connection using official SDK
- */
-export async function testMCPConnectionWithSDK(endpoint: string = '/mcp'): Promise<{ sessionId: string | null; tools: any[]; resources: any[]; prompts: any[] }> {
-  console.log('Testing MCP connection with official SDK...');
-  
-  const client = new Client(
-    {
-      name: 'mcp-web-client-test',
-      version: '1.0.0',
-    },
-    {
-      capabilities: {
-        roots: { listChanged: true },
-        sampling: {},
-      },
-    }
-  );
 
-  const endpointUrl = new URL(endpoint, window.location.origin);
-  const transport = new StreamableHTTPClientTransport(endpointUrl);
+  private get serverCapabilities() {
+    return this.client.getServerCapabilities() ?? this.resumedSession?.capabilities;
+  }
 
-  try {
-    // Connect to the server
-    await client.connect(transport);
-    console.log('Connected successfully!');
+  get supportsResourceSubscriptions(): boolean {
+    return !!this.serverCapabilities?.resources?.subscribe;
+  }
 
-    // List tools
-    const toolsResult = await client.listTools();
-    console.log('Tools:', toolsResult.tools);
+  get supportsLogging(): boolean {
+    return !!this.serverCapabilities?.logging;
+  }
 
-    // List resources
-    const resourcesResult = await client.listResources();
-    console.log('Resources:', resourcesResult.resources);
+  get supportsCompletions(): boolean {
+    return !!this.serverCapabilities?.completions;
+  }
 
-    // List prompts
-    const promptsResult = await client.listPrompts();
-    console.log('Prompts:', promptsResult.prompts);
+  // Protocol version negotiated in initialize, or the one saved with a resumed session
+  get protocolVersion(): string | undefined {
+    return this.transport ? negotiatedVersions.get(this.transport) : undefined;
+  }
 
-    // Close connection
-    await client.close();
+  // Streamable HTTP session ID, or null over SSE
+  get sessionId(): string | null {
+    return this.transport instanceof StreamableHTTPClientTransport ? this.transport.sessionId ?? null : null;
+  }
 
-    return {
-      sessionId: null, // SDK handles session internally
-      tools: toolsResult.tools || [],
-      resources: resourcesResult.resources || [],
-      prompts: promptsResult.prompts || []
-    };
-  } catch (error) {
-    console.error('MCP connection test failed:', error);
-    
-    // Enhanced error handling
-    if (error instanceof Error) {
-      if (error.message.includes('CORS') || error.message.includes('Access-Control-Allow-Origin')) {
-        throw new Error(`CORS错误：无法连接到MCP服务器。请确保服务器已正确配置CORS策略，允许来自当前域的请求。`);
-      } else if (error.message.includes('Failed to fetch')) {
-        throw new Error(`网络错误：无法连接到MCP服务器。请检查服务器地址是否正确且服务器正在运行。`);
-      }
-    }
-    
-    throw error;
+  // Transport actually in use, which differs from server.type after an SSE fallback
+  get transportType(): MCPServer['type'] | undefined {
+    return this.activeTransportType;
   }
-}
\ No newline at end of file
+}
@@ -1,9 +1,9 @@
 import { useMCPServerStore } from '../stores';
-import { MCPClientService } from './mcp-client';
-import { MCPServer } from '../types';
-
-// Map to store active connections
-const connections = new Map<string, MCPClientService>();
+import { connectionManager } from './connection-manager';
+import { ChatToolResult, MCPServer, MCPToolAnnotations } from '../types';
+import { serializeToolResult, validateStructuredContent } from './tool-output';
+import { requestToolApproval, requiresApproval } from './tool-approval';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
 
 
 export interface MCPToolCall {
@@ -15,17 +15,17 @@ export interface MCPToolCall {
   };
 }
 
-export interface MCPToolResult {
-  toolCallId: string;
-  result: any;
-  error?: string;
-}
+export type MCPToolResult = ChatToolResult;
 
-export type ToolExecutionResult = {
-  toolCallId: string;
-  result: any;
-  error?: string;
-};
+export type ToolExecutionResult = ChatToolResult;
+
+export type ToolProgress = Progress;
+
+export interface ToolCallOptions {
+  onProgress?: (progress: ToolProgress) => void;
+  // Aborting sends notifications/cancelled to the server
+  signal?: AbortSignal;
+}
 
 // MCP Tool Handler for processing tool calls in chat
 export class MCPToolHandler {
@@ -49,32 +49,24 @@ export class MCPToolHandler {
         required: string[];
       };
     };
+    // Kept alongside the function definition; not sent to the LLM
+    annotations?: MCPToolAnnotations;
   }>> {
     const { servers } = useMCPServerStore.getState();
-    const tools: any[] = [];
 
     // 只处理启用的服务器（disabled为false或undefined）
     const enabledServers = servers.filter((server: MCPServer) => !server.disabled);
-    
-    for (const server of enabledServers) {
-      if (!server) continue;
-
-      try {
-        let connection = connections.get(server.id);
-        
-        if (!connection) {
-          // Create new connection using official SDK
-          connection = new MCPClientService(server);
-          await connection.connect();
-          connections.set(server.id, connection);
-        }
-        
-        const serverTools = await connection.listTools();
-        
-        // Convert MCP tools to OpenAI function format
-        for (const tool of serverTools) {
-          tools.push({
-            type: 'function',
+
+    // Tool lists come from each connection's catalog cache, fetched in parallel on a miss
+    const serverTools = await Promise.all(
+      enabledServers.map(async (server) => {
+        try {
+          const connection = await connectionManager.getConnection(server);
+          const tools = await connection.listTools();
+
+          // Convert MCP tools to OpenAI function format
+          return tools.map((tool) => ({
+            type: 'function' as const,
             function: {
               name: `${server.name}__${tool.name}`,
               description: tool.description || `Tool ${tool.name} from ${server.name}`,
@@ -83,18 +75,21 @@ export class MCPToolHandler {
                 properties: {},
                 required: []
               }
-            }
-          });
+            },
+            annotations: tool.annotations,
+          }));
+        } catch (error) {
+          console.error(`Failed to get tools from server ${server.name}:`, error);
+          return [];
         }
-      } catch (error) {
-        console.error(`Failed to get tools from server ${server.name}:`, error);
-      }
-    }
+      })
+    );
+    const tools = serverTools.flat();
 
     return tools;
   }
 
-  async executeTool(toolCall: MCPToolCall): Promise<MCPToolResult> {
+  async executeTool(toolCall: MCPToolCall, options: ToolCallOptions = {}): Promise<MCPToolResult> {
     const { servers } = useMCPServerStore.getState();
     
     // Parse server name and tool name from function name
@@ -105,39 +100,80 @@ export class MCPToolHandler {
     if (!server) {
       return {
         toolCallId: toolCall.id,
+        toolName: toolCall.function.name,
         result: `Error: Server ${serverName} not found`,
         error: `Server ${serverName} not found`
       };
     }
 
     try {
-      let connection = connections.get(server.id);
-      
-      if (!connection) {
-        connection = new MCPClientService(server);
-        await connection.connect();
-        connections.set(server.id, connection);
+      const connection = await connectionManager.getConnection(server);
+      const tool = (await connection.listTools()).find((t) => t.name === toolName);
+
+      // Destructive and open-world tools wait for the user's confirmation
+      if (requiresApproval(tool?.annotations)) {
+        const approved = await requestToolApproval({
+          serverName: server.name,
+          toolName,
+          arguments: toolCall.function.arguments,
+          annotations: tool?.annotations,
+        }, options.signal);
+        if (!approved) {
+          const reason = options.signal?.aborted ? 'Tool call cancelled by user' : 'Tool call rejected by user';
+          return {
+            toolCallId: toolCall.id,
+            toolName: toolCall.function.name,
+            result: `Error: ${reason}`,
+            error: reason
+          };
+        }
       }
 
-      const result = await connection.callTool(toolName, toolCall.function.arguments || {});
+      const result = await connection.callTool(toolName, toolCall.function.arguments || {}, {
+        signal: options.signal,
+        onprogress: options.onProgress,
+        // Long-running tools keep the request alive as long as they report progress
+        resetTimeoutOnProgress: true,
+      });
       
+      // Check structuredContent against the outputSchema from the cached tool list
+      let validationError: string | undefined;
+      if (!result.isError) {
+        validationError = validateStructuredContent(tool?.outputSchema, result.structuredContent) ?? undefined;
+      }
+
       return {
         toolCallId: toolCall.id,
-        result: JSON.stringify(result, null, 2)
+        toolName: toolCall.function.name,
+        result,
+        validationError,
       };
     } catch (error) {
+      if (options.signal?.aborted) {
+        return {
+          toolCallId: toolCall.id,
+          toolName: toolCall.function.name,
+          result: 'Error: Tool call cancelled by user',
+          error: 'Tool call cancelled by user'
+        };
+      }
+
       console.error(`Error executing tool ${toolName} on ${serverName}:`, error);
       return {
         toolCallId: toolCall.id,
+        toolName: toolCall.function.name,
         result: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
-  async executeMultipleTools(toolCalls: MCPToolCall[]): Promise<ToolExecutionResult[]> {
+  async executeMultipleTools(
+    toolCalls: MCPToolCall[],
+    getOptions?: (toolCall: MCPToolCall) => ToolCallOptions
+  ): Promise<ToolExecutionResult[]> {
     const results = await Promise.allSettled(
-      toolCalls.map(toolCall => this.executeTool(toolCall))
+      toolCalls.map(toolCall => this.executeTool(toolCall, getOptions?.(toolCall)))
     ) as Array<{ 
       status: string; 
       value?: ToolExecutionResult; 
@@ -150,6 +186,7 @@ export class MCPToolHandler {
       } else {
         return {
           toolCallId: toolCalls[index].id,
+          toolName: toolCalls[index].function.name,
           result: null,
           error: result.reason?.message || 'Tool execution failed',
         };
@@ -162,29 +199,8 @@ export class MCPToolHandler {
       if (result.error) {
         return `Tool ${result.toolCallId} failed: ${result.error}`;
       }
-      
-      let content = '';
-      if (result.result && 'content' in result.result) {
-        if (Array.isArray(result.result.content)) {
-          content = result.result.content
-            .map((item: any) => {
-              if (item.type === 'text') {
-                return item.text;
-              } else if (item.type === 'image') {
-                return `[Image: ${item.data || item.url}]`;
-              } else {
-                return JSON.stringify(item);
-              }
-            })
-            .join('\n');
-        } else {
-          content = String(result.result.content);
-        }
-      } else {
-        content = JSON.stringify(result.result, null, 2);
-      }
-      
-      return `Tool Result (${result.toolCallId}):\n${content}`;
+
+      return `Tool Result (${result.toolCallId}):\n${serializeToolResult(result)}`;
     }).join('\n\n');
   }
 }
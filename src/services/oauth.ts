@@ -0,0 +1,159 @@
+import { auth, OAuthClientProvider, OAuthDiscoveryState } from '@modelcontextprotocol/sdk/client/auth.js';
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { useMCPServerStore } from '../stores';
+import { MCPServer } from '../types';
+import { generateId, getServerEndpoint, storage } from '../utils';
+
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+
+// Maps the state parameter of an in-flight authorization to its server id
+const PENDING_STATE_KEY = 'mcp-oauth-pending-state';
+
+function storageKey(serverId: string, item: string): string {
+  return `mcp-oauth:${serverId}:${item}`;
+}
+
+/**
+ * OAuthClientProvider backed by localStorage, one set of credentials per server.
+ * The SDK drives discovery, dynamic client registration, PKCE and refresh
+ * through it. Background connects are non-interactive: instead of leaving the
+ * page they flag the server so the UI can offer a sign-in action.
+ */
+export class BrowserOAuthProvider implements OAuthClientProvider {
+  constructor(
+    private server: MCPServer,
+    private interactive = false
+  ) {}
+
+  get redirectUrl(): string {
+    return `${window.location.origin}${OAUTH_CALLBACK_PATH}`;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'MCP Web Client',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    };
+  }
+
+  state(): string {
+    const state = generateId();
+    sessionStorage.setItem(PENDING_STATE_KEY, JSON.stringify({ state, serverId: this.server.id }));
+    return state;
+  }
+
+  clientInformation(): OAuthClientInformationMixed | undefined {
+    return storage.get<OAuthClientInformationMixed>(storageKey(this.server.id, 'client')) ?? undefined;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationMixed): void {
+    storage.set(storageKey(this.server.id, 'client'), clientInformation);
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return storage.get<OAuthTokens>(storageKey(this.server.id, 'tokens')) ?? undefined;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    storage.set(storageKey(this.server.id, 'tokens'), tokens);
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    if (this.interactive) {
+      window.location.assign(authorizationUrl.toString());
+    } else {
+      useMCPServerStore.getState().updateServer(this.server.id, { authRequired: true });
+    }
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    // Session storage: the verifier only has to survive the redirect round-trip
+    sessionStorage.setItem(storageKey(this.server.id, 'verifier'), codeVerifier);
+  }
+
+  codeVerifier(): string {
+    const verifier = sessionStorage.getItem(storageKey(this.server.id, 'verifier'));
+    if (!verifier) {
+      throw new Error('缺少 PKCE code verifier，请重新登录');
+    }
+    return verifier;
+  }
+
+  saveDiscoveryState(state: OAuthDiscoveryState): void {
+    storage.set(storageKey(this.server.id, 'discovery'), state);
+  }
+
+  discoveryState(): OAuthDiscoveryState | undefined {
+    return storage.get<OAuthDiscoveryState>(storageKey(this.server.id, 'discovery')) ?? undefined;
+  }
+
+  invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier' | 'discovery'): void {
+    if (scope === 'all' || scope === 'client') storage.remove(storageKey(this.server.id, 'client'));
+    if (scope === 'all' || scope === 'tokens') storage.remove(storageKey(this.server.id, 'tokens'));
+    if (scope === 'all' || scope === 'verifier') sessionStorage.removeItem(storageKey(this.server.id, 'verifier'));
+    if (scope === 'all' || scope === 'discovery') storage.remove(storageKey(this.server.id, 'discovery'));
+  }
+}
+
+/**
+ * Start the authorization code flow for a server. Navigates away to the
+ * authorization server unless existing credentials can be refreshed.
+ */
+export async function signIn(server: MCPServer): Promise<boolean> {
+  const result = await auth(new BrowserOAuthProvider(server, true), {
+    serverUrl: getServerEndpoint(server),
+  });
+  if (result === 'AUTHORIZED') {
+    useMCPServerStore.getState().updateServer(server.id, { authRequired: false });
+  }
+  return result === 'AUTHORIZED';
+}
+
+// Forget tokens and registration so the next connect starts a fresh sign-in
+export function signOut(server: MCPServer): void {
+  new BrowserOAuthProvider(server).invalidateCredentials('all');
+}
+
+export function hasOAuthTokens(server: MCPServer): boolean {
+  return !!new BrowserOAuthProvider(server).tokens();
+}
+
+/**
+ * Complete a redirect back to OAUTH_CALLBACK_PATH by exchanging the
+ * authorization code. Returns the server that was signed in to.
+ */
+export async function completeSignIn(params: URLSearchParams): Promise<MCPServer> {
+  const error = params.get('error');
+  if (error) {
+    throw new Error(params.get('error_description') || error);
+  }
+
+  const pending = JSON.parse(sessionStorage.getItem(PENDING_STATE_KEY) || 'null');
+  sessionStorage.removeItem(PENDING_STATE_KEY);
+  if (!pending || pending.state !== params.get('state')) {
+    throw new Error('OAuth state 不匹配，请重新登录');
+  }
+
+  const server = useMCPServerStore.getState().servers.find((s: MCPServer) => s.id === pending.serverId);
+  if (!server) {
+    throw new Error('要登录的服务器已不存在');
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('授权响应中缺少 code');
+  }
+
+  const provider = new BrowserOAuthProvider(server);
+  await auth(provider, { serverUrl: getServerEndpoint(server), authorizationCode: code });
+  provider.invalidateCredentials('verifier');
+  useMCPServerStore.getState().updateServer(server.id, { authRequired: false });
+  return server;
+}
@@ -0,0 +1,48 @@
+import { useUIStore } from '../stores';
+import { MCPServer } from '../types';
+
+// Upper bound on pages fetched for a single list call
+export const MAX_LIST_PAGES = 50;
+
+export interface ListPage<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Follow nextCursor until the server stops returning one. Stops after
+ * MAX_LIST_PAGES pages (or if the server repeats a cursor) and warns that the
+ * list was truncated.
+ */
+export async function collectPages<T>(
+  server: MCPServer,
+  label: string,
+  fetchPage: (cursor?: string) => Promise<ListPage<T>>
+): Promise<T[]> {
+  const items: T[] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | undefined;
+  let reason = `超过 ${MAX_LIST_PAGES} 页上限`;
+
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await fetchPage(cursor);
+    items.push(...result.items);
+
+    cursor = result.nextCursor;
+    if (!cursor) return items;
+    if (seenCursors.has(cursor)) {
+      console.warn(`Server ${server.name} repeated cursor ${cursor} while listing ${label}`);
+      reason = '服务器返回了重复的分页游标';
+      break;
+    }
+    seenCursors.add(cursor);
+  }
+
+  useUIStore.getState().addNotification({
+    type: 'warning',
+    title: `${label}列表不完整`,
+    message: `${server.name} 的${label}${reason}，仅加载了前 ${items.length} 项`,
+    duration: 0,
+  });
+  return items;
+}
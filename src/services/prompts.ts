@@ -0,0 +1,97 @@
+import { useMCPServerStore } from '../stores';
+import { connectionManager } from './connection-manager';
+import { ChatAttachment, ChatMessage, MCPServer } from '../types';
+import { generateId } from '../utils';
+
+export interface ServerPrompt {
+  server: MCPServer;
+  prompt: any;
+}
+
+/**
+ * List prompts from every enabled server. Servers that fail are skipped.
+ */
+export async function listAllPrompts(): Promise<ServerPrompt[]> {
+  const { servers } = useMCPServerStore.getState();
+  const enabledServers = servers.filter((server: MCPServer) => !server.disabled);
+
+  const results = await Promise.all(
+    enabledServers.map(async (server) => {
+      try {
+        const connection = await connectionManager.getConnection(server);
+        const prompts = await connection.listPrompts();
+        return prompts.map((prompt) => ({ server, prompt }));
+      } catch (error) {
+        console.error(`Failed to list prompts from server ${server.name}:`, error);
+        return [];
+      }
+    })
+  );
+
+  return results.flat();
+}
+
+// Describe non-text content that has no chat representation yet
+function describeContent(content: any): string {
+  switch (content.type) {
+    case 'image':
+      return `[图片: ${content.mimeType}]`;
+    case 'audio':
+      return `[音频: ${content.mimeType}]`;
+    case 'resource_link':
+      return `[资源链接: ${content.name || content.uri}](${content.uri})`;
+    default:
+      return JSON.stringify(content);
+  }
+}
+
+/**
+ * Call prompts/get and convert the returned messages to chat messages.
+ * Embedded resources become attachments so their contents reach the LLM.
+ */
+export async function getPromptMessages(
+  server: MCPServer,
+  name: string,
+  args: Record<string, string>
+): Promise<Array<Omit<ChatMessage, 'id' | 'timestamp'>>> {
+  const connection = await connectionManager.getConnection(server);
+  const result = await connection.getPrompt(name, args);
+
+  return (result.messages || []).map((message: any) => {
+    const { content } = message;
+
+    if (content.type === 'resource') {
+      const attachment: ChatAttachment = {
+        id: generateId(),
+        serverId: server.id,
+        serverName: server.name,
+        uri: content.resource.uri,
+        name: content.resource.uri,
+        contents: [content.resource],
+      };
+      return {
+        role: message.role,
+        content: `📎 ${content.resource.uri}`,
+        metadata: { mcpServer: server.name, attachments: [attachment] },
+      };
+    }
+
+    return {
+      role: message.role,
+      content: content.type === 'text' ? content.text : describeContent(content),
+      metadata: { mcpServer: server.name },
+    };
+  });
+}
+
+// Match the text typed after "/" against prompt names, titles and descriptions
+export function filterPrompts(prompts: ServerPrompt[], query: string): ServerPrompt[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return prompts;
+
+  return prompts.filter(({ server, prompt }) =>
+    [prompt.name, prompt.title, prompt.description, server.name]
+      .filter(Boolean)
+      .some((text: string) => text.toLowerCase().includes(q))
+  );
+}
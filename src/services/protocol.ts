@@ -0,0 +1,20 @@
+import { LATEST_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServer } from '../types';
+
+// Protocol version requested in initialize. The SDK client always asks for its
+// latest version, and the hand-written initialize requests send the same one.
+export const CLIENT_PROTOCOL_VERSION = LATEST_PROTOCOL_VERSION;
+
+/**
+ * Describe how the protocol version negotiated with a server differs from the
+ * one requested, or null when they match or the server has not connected yet.
+ */
+export function getProtocolVersionWarning(server: MCPServer): string | null {
+  const negotiated = server.protocolVersion;
+  if (!negotiated || negotiated === CLIENT_PROTOCOL_VERSION) return null;
+
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(negotiated)) {
+    return `服务器使用的协议版本 ${negotiated} 不受客户端支持（请求的是 ${CLIENT_PROTOCOL_VERSION}）`;
+  }
+  return `服务器协商的协议版本为 ${negotiated}，与客户端请求的 ${CLIENT_PROTOCOL_VERSION} 不一致，较新的功能可能不可用`;
+}
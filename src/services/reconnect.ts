@@ -0,0 +1,14 @@
+// Defaults for supervised reconnection when a server does not configure its own
+export const DEFAULT_RECONNECT_ATTEMPTS = 5;
+export const DEFAULT_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Delay before reconnect attempt number `attempt` (starting at 1): exponential
+ * backoff capped at 30s, with half of it randomized so clients that lost the
+ * same server do not all come back at once.
+ */
+export function getReconnectDelay(attempt: number, baseDelay = DEFAULT_RECONNECT_DELAY): number {
+  const delay = Math.min(MAX_RECONNECT_DELAY, baseDelay * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
@@ -0,0 +1,46 @@
+import { connectionManager } from './connection-manager';
+import { MCPResourceContents, MCPServer } from '../types';
+
+/**
+ * Subscribe to a resource and call onUpdated whenever the server reports a
+ * change to it. Resolves to a disposer, or null when the server does not
+ * support subscriptions.
+ */
+export async function watchResource(
+  server: MCPServer,
+  uri: string,
+  onUpdated: () => void
+): Promise<(() => void) | null> {
+  const connection = await connectionManager.getConnection(server);
+  if (!connection.supportsResourceSubscriptions) return null;
+
+  const removeListener = connection.onNotification('notifications/resources/updated', (params) => {
+    if (params?.uri === uri) onUpdated();
+  });
+
+  try {
+    await connection.subscribeResource(uri);
+  } catch (error) {
+    removeListener();
+    throw error;
+  }
+
+  return () => {
+    removeListener();
+    connection.unsubscribeResource(uri);
+  };
+}
+
+/**
+ * Call onChanged whenever the server reports that its resource list changed.
+ */
+export async function watchResourceList(server: MCPServer, onChanged: () => void): Promise<() => void> {
+  const connection = await connectionManager.getConnection(server);
+  return connection.onNotification('notifications/resources/list_changed', onChanged);
+}
+
+export async function readResourceContents(server: MCPServer, uri: string): Promise<MCPResourceContents[]> {
+  const connection = await connectionManager.getConnection(server);
+  const result = await connection.readResource(uri);
+  return result.contents || [];
+}
@@ -0,0 +1,187 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { useSamplingStore, useSettingsStore } from '../stores';
+import { LLMService, OracleAIService } from './api';
+import { AppSettings, LLMProvider, MCPServer } from '../types';
+
+export type SamplingParams = CreateMessageRequest['params'];
+
+// A sampling/createMessage request waiting for the user's approval
+export interface PendingSamplingRequest {
+  id: string;
+  serverId: string;
+  serverName: string;
+  params: SamplingParams;
+  resolve: (result: CreateMessageResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Draft of the prompt the user may edit before it is sent to the LLM
+export interface SamplingDraft {
+  systemPrompt: string;
+  messages: Array<{ role: 'user' | 'assistant'; text: string; content: any[] }>;
+}
+
+// Error code used by the spec examples when the user rejects a sampling request
+const USER_REJECTED = -1;
+
+/**
+ * Queue a sampling request for user approval. Resolves once the user approves
+ * a completion, rejects if the user declines or the server cancels.
+ */
+export function requestSampling(
+  server: MCPServer,
+  params: SamplingParams,
+  signal?: AbortSignal
+): Promise<CreateMessageResult> {
+  return new Promise((resolve, reject) => {
+    const { enqueue, remove } = useSamplingStore.getState();
+    const id = enqueue({ serverId: server.id, serverName: server.name, params, resolve, reject });
+
+    signal?.addEventListener('abort', () => {
+      remove(id);
+      reject(new Error('Sampling request cancelled by server'));
+    });
+  });
+}
+
+export function rejectSampling(request: PendingSamplingRequest): void {
+  useSamplingStore.getState().remove(request.id);
+  request.reject(new McpError(USER_REJECTED, 'User rejected sampling request'));
+}
+
+export function approveSampling(request: PendingSamplingRequest, result: CreateMessageResult): void {
+  useSamplingStore.getState().remove(request.id);
+  request.resolve(result);
+}
+
+// Sampling message content is a single block or, in newer revisions, an array
+function toContentBlocks(content: any): any[] {
+  return Array.isArray(content) ? content : [content];
+}
+
+export function createSamplingDraft(params: SamplingParams): SamplingDraft {
+  return {
+    systemPrompt: params.systemPrompt || '',
+    messages: params.messages.map((message: any) => {
+      const content = toContentBlocks(message.content);
+      return {
+        role: message.role,
+        text: content
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text)
+          .join('\n'),
+        content,
+      };
+    }),
+  };
+}
+
+// Models of the active provider; other llmProviders entries use different endpoints and keys
+function getConfiguredModels(settings: AppSettings): string[] {
+  const configured = settings.providerType === 'openai' ? settings.openaiModelName : settings.ocigenaiModelName;
+  return configured ? [configured] : [];
+}
+
+/**
+ * Pick a model for the request. Model hints are substrings matched against
+ * the active provider's models in order; without a match the active model is used.
+ */
+export function selectSamplingModel(params: SamplingParams, settings: AppSettings): string {
+  const models = getConfiguredModels(settings);
+  const hints = params.modelPreferences?.hints || [];
+
+  for (const hint of hints) {
+    if (!hint.name) continue;
+    const match = models.find((model) => model.toLowerCase().includes(hint.name!.toLowerCase()));
+    if (match) return match;
+  }
+
+  return models[0] || '';
+}
+
+// Convert the draft to OpenAI chat format; images become image_url parts
+function toChatMessages(draft: SamplingDraft, multimodal: boolean): any[] {
+  const messages: any[] = draft.systemPrompt.trim()
+    ? [{ role: 'system', content: draft.systemPrompt }]
+    : [];
+
+  for (const message of draft.messages) {
+    const images = multimodal ? message.content.filter((block) => block.type === 'image') : [];
+    if (images.length === 0) {
+      messages.push({ role: message.role, content: message.text });
+      continue;
+    }
+
+    messages.push({
+      role: message.role,
+      content: [
+        ...(message.text ? [{ type: 'text', text: message.text }] : []),
+        ...images.map((image) => ({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        })),
+      ],
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Generate a completion for an (edited) sampling draft with the active provider.
+ */
+export async function generateSamplingCompletion(
+  params: SamplingParams,
+  draft: SamplingDraft
+): Promise<{ text: string; model: string; stopReason?: string }> {
+  const { settings } = useSettingsStore.getState();
+  const model = selectSamplingModel(params, settings);
+  const maxTokens = params.maxTokens || settings.maxTokens;
+  const temperature = params.temperature ?? settings.temperature;
+
+  if (settings.providerType === 'openai') {
+    if (!settings.openaiApiKey || !model) {
+      throw new Error('请在设置中配置OpenAI API密钥和模型名称');
+    }
+
+    const providerConfig: LLMProvider = {
+      id: 'openai-provider',
+      type: 'openai',
+      name: 'OpenAI',
+      baseUrl: settings.openaiBaseUrl || 'https://api.openai.com/v1',
+      apiKey: settings.openaiApiKey,
+      models: [{ id: model, name: model, displayName: model, maxTokens }],
+    };
+    const llmService = new LLMService(providerConfig);
+    const response = await llmService.chat(toChatMessages(draft, true), model, {
+      max_tokens: maxTokens,
+      temperature,
+      stop: params.stopSequences,
+    });
+    const choice = response.choices?.[0];
+
+    return {
+      text: choice?.message?.content || '',
+      model: response.model || model,
+      stopReason: choice?.finish_reason === 'length' ? 'maxTokens' : 'endTurn',
+    };
+  }
+
+  if (!model) {
+    throw new Error('请在设置中配置OCI GenAI模型名称');
+  }
+
+  const oracleService = new OracleAIService('');
+  const response = await oracleService.chat(toChatMessages(draft, false), {
+    maxTokens,
+    temperature,
+    model,
+  });
+
+  return {
+    text: response.chatResponse?.choices?.[0]?.message?.content || '',
+    model,
+    stopReason: 'endTurn',
+  };
+}
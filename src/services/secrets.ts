@@ -0,0 +1,87 @@
+import { useSecretStore } from '../stores';
+import { MCPHeaderEntry } from '../types';
+
+// Matches ${secret:NAME} references inside header values
+const SECRET_REFERENCE = /\$\{secret:([A-Za-z0-9_.-]+)\}/g;
+
+export function secretReference(name: string): string {
+  return `\${secret:${name}}`;
+}
+
+export function hasSecretReference(value: string): boolean {
+  return new RegExp(SECRET_REFERENCE.source).test(value);
+}
+
+// Turn arbitrary labels into an upper snake case secret name, e.g. "GitHub" + "Authorization" -> GITHUB_AUTHORIZATION
+export function toSecretName(...parts: string[]): string {
+  return parts
+    .join('_')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+}
+
+/**
+ * Replace every ${secret:NAME} in value with the stored secret.
+ * Throws if a referenced secret has not been defined.
+ */
+export function resolveSecrets(value: string): string {
+  const { secrets } = useSecretStore.getState();
+  return value.replace(SECRET_REFERENCE, (_match, name: string) => {
+    if (!(name in secrets)) {
+      throw new Error(`密钥 ${name} 未定义，请在设置中添加`);
+    }
+    return secrets[name];
+  });
+}
+
+// Resolve secret references in request headers right before they are sent
+export function resolveHeaders(headers?: Record<string, string>): Record<string, string> | undefined {
+  if (!headers) return undefined;
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, resolveSecrets(value)])
+  );
+}
+
+// Secrets created from a server's header editor are namespaced by its id, e.g. SERVER_K3X9_AUTHORIZATION
+function serverSecretPrefix(serverId: string): string {
+  return `${toSecretName('server', serverId)}_`;
+}
+
+/**
+ * Build the headers to persist for a server. Raw values of secret rows are
+ * saved to the secret store and replaced by references; a "Bearer " prefix
+ * stays in the header so only the token itself is secret. Rows without a
+ * value, including a bare "Bearer " preset, are dropped.
+ */
+export function storeHeaderSecrets(serverId: string, entries: MCPHeaderEntry[]): Record<string, string> | undefined {
+  const { setSecret } = useSecretStore.getState();
+  const headers: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const name = entry.name.trim();
+    const value = entry.value.trim();
+    const prefix = /^bearer(\s+|$)/i.exec(value)?.[0] ?? '';
+    const token = value.slice(prefix.length);
+    if (!name || !token) continue;
+
+    if (entry.secret && !hasSecretReference(value)) {
+      const secretName = serverSecretPrefix(serverId) + toSecretName(name);
+      setSecret(secretName, token);
+      headers[name] = `${prefix}${secretReference(secretName)}`;
+    } else {
+      headers[name] = value;
+    }
+  }
+
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+// Delete the secrets storeHeaderSecrets created for a server
+export function removeServerSecrets(serverId: string): void {
+  const { secrets, removeSecret } = useSecretStore.getState();
+  const prefix = serverSecretPrefix(serverId);
+  Object.keys(secrets)
+    .filter((name) => name.startsWith(prefix))
+    .forEach(removeSecret);
+}
@@ -0,0 +1,40 @@
+import type { Implementation, ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { storage } from '../utils';
+
+/**
+ * Streamable HTTP session saved across page reloads. A resumed session skips
+ * initialize, so the initialize result is kept alongside the session ID.
+ */
+export interface SavedSession {
+  sessionId: string;
+  protocolVersion?: string;
+  capabilities?: ServerCapabilities;
+  serverInfo?: Implementation;
+  instructions?: string;
+  // Last SSE event ID seen, sent as Last-Event-ID when the stream is resumed
+  lastEventId?: string;
+}
+
+function sessionKey(serverId: string): string {
+  return `mcp-session:${serverId}`;
+}
+
+export function loadSession(serverId: string): SavedSession | null {
+  return storage.get<SavedSession>(sessionKey(serverId));
+}
+
+export function saveSession(serverId: string, session: SavedSession): void {
+  storage.set(sessionKey(serverId), session);
+}
+
+// Record a new SSE event ID for the server's saved session, if there is one
+export function saveLastEventId(serverId: string, lastEventId: string): void {
+  const session = loadSession(serverId);
+  if (session) {
+    saveSession(serverId, { ...session, lastEventId });
+  }
+}
+
+export function clearSession(serverId: string): void {
+  storage.remove(sessionKey(serverId));
+}
@@ -1,4 +1,9 @@
 import { MCPServer } from '../types';
+import { getServerEndpoint } from '../utils';
+import { collectPages } from './pagination';
+import { resolveHeaders } from './secrets';
+import { CLIENT_PROTOCOL_VERSION } from './protocol';
+import { DEFAULT_RECONNECT_ATTEMPTS, getReconnectDelay } from './reconnect';
 
 // Streamable HTTP connection types
 export type StreamableTransport = 'streamable-http';
@@ -107,6 +112,8 @@ export abstract class StreamableHttpConnection {
 export class StreamableHTTPConnection extends StreamableHttpConnection {
   private abortController?: AbortController;
   private eventSource?: EventSource;
+  private sseReconnectAttempt = 0;
+  private sseReconnectTimer?: ReturnType<typeof setTimeout>;
 
   constructor(server: MCPServer, config: StreamableHttpConfig) {
     super(server, config);
@@ -129,7 +136,7 @@ export class StreamableHTTPConnection extends StreamableHttpConnection {
           jsonrpc: '2.0',
           method: 'initialize',
           params: {
-            protocolVersion: '2025-03-26',
+            protocolVersion: CLIENT_PROTOCOL_VERSION,
             capabilities: {},
             clientInfo: {
               name: 'mcp-web-client',
@@ -181,19 +188,46 @@ export class StreamableHTTPConnection extends StreamableHttpConnection {
 
     this.eventSource.onerror = (error) => {
       console.error('SSE connection error:', error);
+      // EventSource retries by itself unless the server closed the stream for good
+      if (this.eventSource?.readyState === EventSource.CLOSED && this.isConnected) {
+        this.scheduleSSEReconnect();
+      }
     };
 
     this.eventSource.onopen = () => {
       console.log('SSE connection established');
+      this.sseReconnectAttempt = 0;
     };
   }
 
+  private scheduleSSEReconnect(): void {
+    const maxAttempts = this.config.reconnectAttempts ?? DEFAULT_RECONNECT_ATTEMPTS;
+    if (this.sseReconnectAttempt >= maxAttempts) {
+      console.error(`Giving up reconnecting SSE stream after ${maxAttempts} attempts`);
+      this.isConnected = false;
+      return;
+    }
+
+    this.sseReconnectAttempt++;
+    const delay = getReconnectDelay(this.sseReconnectAttempt, this.config.reconnectDelay);
+    this.sseReconnectTimer = setTimeout(() => {
+      this.sseReconnectTimer = undefined;
+      this.eventSource?.close();
+      this.setupSSEConnection();
+    }, delay);
+  }
+
   async disconnect(): Promise<void> {
     if (this.abortController) {
       this.abortController.abort();
       this.abortController = undefined;
     }
     
+    if (this.sseReconnectTimer) {
+      clearTimeout(this.sseReconnectTimer);
+      this.sseReconnectTimer = undefined;
+    }
+
     if (this.eventSource) {
       this.eventSource.close();
       this.eventSource = undefined;
@@ -240,15 +274,17 @@ export function createStreamableConnection(
 ): StreamableHttpConnection {
   const config: StreamableHttpConfig = {
     transport: 'streamable-http',
-    endpoint: '/mcp',
-    headers: server.config?.headers,
+    endpoint: getServerEndpoint(server).toString(),
+    headers: resolveHeaders(server.config?.headers),
+    reconnectAttempts: server.config?.retryAttempts,
+    reconnectDelay: server.config?.retryDelay,
   };
 
   return new StreamableHTTPConnection(server, config);
 }
 
 // MCP Connection Test Function following 2025-06-18 specification
-export async function testMCPConnection(): Promise<{ sessionId: string | null }> {
+export async function testMCPConnection(server: MCPServer): Promise<{ sessionId: string | null }> {
   console.log('Starting MCP connection test following 2025-06-18 specification...');
   
   let sessionId: string | undefined;
@@ -256,12 +292,13 @@ export async function testMCPConnection(): Promise<{ sessionId: string | null }>
   try {
     // Step 1: POST /mcp - Initialize request
     console.log('Step 1: Sending initialize request (POST /mcp)');
-    // Ensure correct endpoint without double /mcp
-    const endpoint = '/mcp';
+    const endpoint = getServerEndpoint(server).toString();
+    const customHeaders = resolveHeaders(server.config?.headers) || {};
     const initResponse = await fetch(endpoint, {
       method: 'POST',
       mode: 'cors',
       headers: {
+        ...customHeaders,
         'Content-Type': 'application/json',
         'Accept': 'application/json, text/event-stream, */*'
       },
@@ -270,7 +307,7 @@ export async function testMCPConnection(): Promise<{ sessionId: string | null }>
         id: 1,
         method: 'initialize',
         params: {
-          protocolVersion: '2025-06-18',
+          protocolVersion: CLIENT_PROTOCOL_VERSION,
           capabilities: {
             roots: { listChanged: true },
             sampling: {}
@@ -306,6 +343,7 @@ export async function testMCPConnection(): Promise<{ sessionId: string | null }>
       method: 'GET',
       mode: 'cors',
       headers: {
+        ...customHeaders,
         ...sseHeaders,
         'Accept': 'application/json, text/event-stream, */*',
       }
@@ -323,6 +361,7 @@ export async function testMCPConnection(): Promise<{ sessionId: string | null }>
     // Helper function for POST requests with session ID
     const sendRequest = async (method: string, params?: any, id: number = Date.now()) => {
       const headers: Record<string, string> = {
+        ...customHeaders,
         'Content-Type': 'application/json',
         'Accept': 'application/json, text/event-stream, */*'
       };
@@ -425,8 +464,10 @@ export class StreamableMCPServerService {
 
   async listTools(): Promise<any[]> {
     try {
-      const result = await this.connection.request('tools/list');
-      return result.tools || [];
+      return await collectPages(this.server, '工具', async (cursor) => {
+        const result = await this.connection.request('tools/list', cursor ? { cursor } : undefined);
+        return { items: result.tools || [], nextCursor: result.nextCursor };
+      });
     } catch (error) {
       console.error('Failed to list tools:', error);
       return [];
@@ -447,14 +488,40 @@ export class StreamableMCPServerService {
 
   async listResources(): Promise<any[]> {
     try {
-      const result = await this.connection.request('resources/list');
-      return result.resources || [];
+      return await collectPages(this.server, '资源', async (cursor) => {
+        const result = await this.connection.request('resources/list', cursor ? { cursor } : undefined);
+        return { items: result.resources || [], nextCursor: result.nextCursor };
+      });
     } catch (error) {
       console.error('Failed to list resources:', error);
       return [];
     }
   }
 
+  async listResourceTemplates(): Promise<any[]> {
+    try {
+      return await collectPages(this.server, '资源模板', async (cursor) => {
+        const result = await this.connection.request('resources/templates/list', cursor ? { cursor } : undefined);
+        return { items: result.resourceTemplates || [], nextCursor: result.nextCursor };
+      });
+    } catch (error) {
+      console.error('Failed to list resource templates:', error);
+      return [];
+    }
+  }
+
+  async listPrompts(): Promise<any[]> {
+    try {
+      return await collectPages(this.server, '提示', async (cursor) => {
+        const result = await this.connection.request('prompts/list', cursor ? { cursor } : undefined);
+        return { items: result.prompts || [], nextCursor: result.nextCursor };
+      });
+    } catch (error) {
+      console.error('Failed to list prompts:', error);
+      return [];
+    }
+  }
+
   async readResource(uri: string): Promise<any> {
     try {
       return await this.connection.request('resources/read', { uri });
@@ -0,0 +1,25 @@
+import { MCPServer } from '../types';
+
+// Enabled servers whose initialize instructions go into the system prompt
+export function getInstructionServers(servers: MCPServer[]): MCPServer[] {
+  return servers.filter(
+    (server) => !server.disabled && server.includeInstructions !== false && !!server.instructions?.trim()
+  );
+}
+
+/**
+ * Assemble the instructions of enabled MCP servers into one system prompt,
+ * one block per server so the model can tell which tools they refer to.
+ * Returns an empty string when no server contributes instructions.
+ */
+export function buildSystemPrompt(servers: MCPServer[]): string {
+  const blocks = getInstructionServers(servers).map(
+    (server) => `<server name="${server.name}">\n${server.instructions!.trim()}\n</server>`
+  );
+  if (blocks.length === 0) return '';
+
+  return [
+    `以下 MCP 服务器提供了工具使用说明。调用某个服务器的工具（名称前缀为"服务器名__"）时，请遵循对应的说明。`,
+    ...blocks,
+  ].join('\n\n');
+}
@@ -0,0 +1,71 @@
+import { useSettingsStore, useToolApprovalStore } from '../stores';
+import { MCPToolAnnotations } from '../types';
+
+// A tool call waiting for the user to allow or deny it
+export interface PendingToolApproval {
+  id: string;
+  serverName: string;
+  toolName: string;
+  arguments: unknown;
+  annotations?: MCPToolAnnotations;
+  resolve: (approved: boolean) => void;
+}
+
+/**
+ * Whether a tool may change or delete data, using the spec defaults for
+ * missing hints: destructiveHint only applies to tools that are not read-only.
+ */
+export function isDestructiveTool(annotations?: MCPToolAnnotations): boolean {
+  return !annotations?.readOnlyHint && annotations?.destructiveHint !== false;
+}
+
+// Whether a tool may reach systems outside the server (web, third-party APIs)
+export function isOpenWorldTool(annotations?: MCPToolAnnotations): boolean {
+  return annotations?.openWorldHint !== false;
+}
+
+// Read-only tools run unprompted; anything that writes and is destructive or open-world asks first
+export function requiresApproval(annotations?: MCPToolAnnotations): boolean {
+  if (useSettingsStore.getState().settings.confirmRiskyToolCalls === false) return false;
+  if (annotations?.readOnlyHint) return false;
+  return isDestructiveTool(annotations) || isOpenWorldTool(annotations);
+}
+
+/**
+ * Queue a tool call for confirmation. Resolves true once the user allows it,
+ * false if the user denies it or the call is cancelled while waiting.
+ */
+export function requestToolApproval(
+  request: Omit<PendingToolApproval, 'id' | 'resolve'>,
+  signal?: AbortSignal
+): Promise<boolean> {
+  if (signal?.aborted) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    const { enqueue, remove } = useToolApprovalStore.getState();
+    const onAbort = () => {
+      remove(id);
+      resolve(false);
+    };
+    // Settling by approve or deny detaches the abort listener again
+    const id = enqueue({
+      ...request,
+      resolve: (approved) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(approved);
+      },
+    });
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function approveToolCall(request: PendingToolApproval): void {
+  useToolApprovalStore.getState().remove(request.id);
+  request.resolve(true);
+}
+
+export function denyToolCall(request: PendingToolApproval): void {
+  useToolApprovalStore.getState().remove(request.id);
+  request.resolve(false);
+}
@@ -0,0 +1,107 @@
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import type { JsonSchemaType, JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation';
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { ChatToolResult } from '../types';
+
+const schemaValidator = new AjvJsonSchemaValidator();
+// Compiled validators per outputSchema object; tool catalogs are cached, so schemas are reused
+const compiledValidators = new WeakMap<object, JsonSchemaValidator<unknown>>();
+
+/**
+ * Check a tool's structuredContent against its declared outputSchema. Returns
+ * the validation error, or null when the content matches or there is no schema.
+ */
+export function validateStructuredContent(outputSchema: unknown, structuredContent: unknown): string | null {
+  if (!outputSchema || typeof outputSchema !== 'object') return null;
+  if (structuredContent === undefined) {
+    return '工具声明了 outputSchema，但没有返回 structuredContent';
+  }
+
+  try {
+    let validate = compiledValidators.get(outputSchema);
+    if (!validate) {
+      validate = schemaValidator.getValidator(outputSchema as JsonSchemaType);
+      compiledValidators.set(outputSchema, validate);
+    }
+    const result = validate(structuredContent);
+    return result.valid ? null : result.errorMessage;
+  } catch (error) {
+    return `无法编译 outputSchema: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Text sent to the LLM for one tool result. Structured results are sent as
+ * compact JSON of structuredContent alone; other results as their text blocks.
+ */
+export function serializeToolResult(result: ChatToolResult): string {
+  if (result.error) {
+    return `Error: ${result.error}`;
+  }
+
+  const callResult = result.result;
+  if (!callResult || typeof callResult !== 'object') {
+    return String(callResult ?? '');
+  }
+
+  const parts: string[] = [];
+  if (callResult.isError) {
+    parts.push('Error:');
+  }
+  if (callResult.structuredContent !== undefined) {
+    parts.push(JSON.stringify(callResult.structuredContent));
+    if (result.validationError) {
+      parts.push(`(structuredContent does not match outputSchema: ${result.validationError})`);
+    }
+    return parts.join('\n');
+  }
+
+  if (Array.isArray(callResult.content)) {
+    parts.push(...callResult.content.map(serializeContentBlock));
+  } else {
+    parts.push(JSON.stringify(callResult));
+  }
+  return parts.join('\n');
+}
+
+// One content block as text. Media is summarized rather than inlined as base64;
+// images reach vision models separately as image parts.
+function serializeContentBlock(block: any): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'image':
+      return `[Image: ${block.mimeType || 'image'}]`;
+    case 'audio':
+      return `[Audio: ${block.mimeType || 'audio'}]`;
+    case 'resource_link':
+      return `[Resource link: ${block.title || block.name || block.uri} <${block.uri}>${block.description ? ` - ${block.description}` : ''}]`;
+    case 'resource': {
+      const { uri, mimeType, text } = block.resource;
+      return text !== undefined
+        ? `<resource uri="${uri}"${mimeType ? ` mimeType="${mimeType}"` : ''}>\n${text}\n</resource>`
+        : `[Binary resource: ${uri} (${mimeType || 'application/octet-stream'})]`;
+    }
+    default:
+      return JSON.stringify(block);
+  }
+}
+
+// Images returned by tool calls, as data URLs, including embedded image resources
+export function getToolResultImages(results: ChatToolResult[] = []): string[] {
+  return results.flatMap((result) => {
+    const content = result.result && typeof result.result === 'object' ? result.result.content : null;
+    if (!Array.isArray(content)) return [];
+
+    return content.flatMap((block: ContentBlock) => {
+      if (block.type === 'image' && block.data) {
+        return [`data:${block.mimeType || 'image/png'};base64,${block.data}`];
+      }
+      if (block.type === 'resource' && 'blob' in block.resource && block.resource.blob
+        && block.resource.mimeType?.startsWith('image/')) {
+        return [`data:${block.resource.mimeType};base64,${block.resource.blob}`];
+      }
+      return [];
+    });
+  });
+}
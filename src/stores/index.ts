@@ -1,33 +1,38 @@
 // @ts-nocheck
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { MCPServer, ChatSession, ChatMessage, LLMProvider, UIState, AppSettings, Notification } from '../types';
+import { MCPServer, MCPRoot, ServerLogEntry, HealthSample, ChatSession, ChatMessage, ChatAttachment, LLMProvider, UIState, AppSettings, Notification } from '../types';
 import { generateId } from '../utils';
-import { StreamableMCPServerService, StreamableTransport } from '../services/streamable-http';
+import { MCPClientService } from '../services/mcp-client';
+import { connectionManager } from '../services/connection-manager';
+import { removeServerSecrets } from '../services/secrets';
+import { signOut } from '../services/oauth';
+import type { PendingSamplingRequest } from '../services/sampling';
+import type { PendingElicitationRequest } from '../services/elicitation';
+import type { PendingToolApproval } from '../services/tool-approval';
 
 // MCP Servers Store
 interface MCPServerStore {
   servers: MCPServer[];
-  connections: Map<string, StreamableMCPServerService>;
-  addServer: (server: Omit<MCPServer, 'id' | 'status'>) => void;
+  addServer: (server: Omit<MCPServer, 'id' | 'status'> & { id?: string }) => void;
   updateServer: (id: string, updates: Partial<MCPServer>) => void;
   removeServer: (id: string) => void;
   toggleServerActive: (id: string) => void;
   setServerStatus: (id: string, status: MCPServer['status']) => void;
-  connectServer: (id: string, transport?: StreamableTransport) => Promise<boolean>;
+  setServerRoots: (id: string, roots: MCPRoot[]) => void;
+  connectServer: (id: string) => Promise<boolean>;
   disconnectServer: (id: string) => Promise<void>;
-  getConnection: (id: string) => StreamableMCPServerService | undefined;
+  getConnection: (id: string) => MCPClientService | undefined;
 }
 
 export const useMCPServerStore = create<MCPServerStore>()(persist(
   (set, get) => ({
     servers: [],
-    connections: new Map(),
     
     addServer: (server) => {
       const newServer: MCPServer = {
         ...server,
-        id: generateId(),
+        id: server.id ?? generateId(),
         status: 'disconnected',
         disabled: false,
       };
@@ -45,22 +50,30 @@ export const useMCPServerStore = create<MCPServerStore>()(persist(
     },
     
     removeServer: (id) => {
+      const server = get().servers.find((s) => s.id === id);
+      connectionManager.disconnect(id);
+      removeServerSecrets(id);
+      // Drop OAuth tokens, client registration and discovery state along with the server
+      if (server) signOut(server);
       set((state) => ({
         servers: state.servers.filter((server) => server.id !== id),
       }));
     },
     
     toggleServerActive: (id) => {
-      set((state) => {
-        const server = state.servers.find(s => s.id === id);
-        const isCurrentlyDisabled = server?.disabled || false;
-        
-        return {
-          servers: state.servers.map((server) =>
-            server.id === id ? { ...server, disabled: !isCurrentlyDisabled } : server
-          ),
-        };
-      });
+      const server = get().servers.find(s => s.id === id);
+      const isCurrentlyDisabled = server?.disabled || false;
+
+      set((state) => ({
+        servers: state.servers.map((server) =>
+          server.id === id ? { ...server, disabled: !isCurrentlyDisabled } : server
+        ),
+      }));
+
+      // Disabling a server closes its connection
+      if (!isCurrentlyDisabled) {
+        connectionManager.disconnect(id);
+      }
     },
     
     setServerStatus: (id, status) => {
@@ -71,78 +84,232 @@ export const useMCPServerStore = create<MCPServerStore>()(persist(
       }));
     },
 
-    connectServer: async (id, transport = 'sse') => {
-      const { servers, connections, setServerStatus } = get();
-      const server = servers.find(s => s.id === id);
+    setServerRoots: (id, roots) => {
+      set((state) => ({
+        servers: state.servers.map((server) =>
+          server.id === id ? { ...server, roots } : server
+        ),
+      }));
+    },
+
+    connectServer: async (id) => {
+      const server = get().servers.find(s => s.id === id);
       if (!server) return false;
 
       try {
-        // Create status callback function
-        const onStatusChange = (status: MCPServer['status']) => {
-          setServerStatus(id, status);
-        };
-
-        // Use the custom streamable HTTP service with status callback
-        const service = new StreamableMCPServerService(server, onStatusChange);
-        const connected = await service.connect();
-        
-        if (connected) {
-          connections.set(id, service);
-          set((state) => ({
-            connections: new Map(connections),
-          }));
-          return true;
-        } else {
-          return false;
-        }
+        await connectionManager.getConnection(server);
+        return true;
       } catch (error) {
         console.error('Failed to connect server:', error);
-        setServerStatus(id, 'error');
         return false;
       }
     },
 
     disconnectServer: async (id) => {
-      const { connections } = get();
-      
-      const connection = connections.get(id);
-      if (connection) {
-        await connection.disconnect();
-        connections.delete(id);
-      }
-      
-      set((state) => ({
-        servers: state.servers.map((s) =>
-          s.id === id ? { ...s, status: 'disconnected' } : s
-        ),
-        connections: new Map(connections),
-      }));
+      await connectionManager.disconnect(id);
     },
 
     getConnection: (id) => {
-      return get().connections.get(id);
+      return connectionManager.findConnection(id);
     }
   }),
   {
     name: 'mcp-servers',
     partialize: (state) => ({ servers: state.servers }),
     onRehydrateStorage: () => (state) => {
+      // No connection survives a reload, so a persisted status would be stale
       if (state) {
-        // 确保connections字段始终是Map实例
-        if (!(state.connections instanceof Map)) {
-          state.connections = new Map();
-        }
+        state.servers = state.servers.map((server) => ({
+          ...server,
+          status: 'disconnected',
+          reconnectAttempt: undefined,
+        }));
       }
       return state;
     },
   }
 ));
 
+// Sampling Store (pending sampling/createMessage requests awaiting approval)
+interface SamplingStore {
+  requests: PendingSamplingRequest[];
+  enqueue: (request: Omit<PendingSamplingRequest, 'id'>) => string;
+  remove: (id: string) => void;
+}
+
+export const useSamplingStore = create<SamplingStore>()((set) => ({
+  requests: [],
+
+  enqueue: (request) => {
+    const id = generateId();
+    set((state) => ({
+      requests: [...state.requests, { ...request, id }],
+    }));
+    return id;
+  },
+
+  remove: (id) => {
+    set((state) => ({
+      requests: state.requests.filter((request) => request.id !== id),
+    }));
+  },
+}));
+
+// Elicitation Store (pending elicitation/create requests awaiting user input)
+interface ElicitationStore {
+  requests: PendingElicitationRequest[];
+  enqueue: (request: Omit<PendingElicitationRequest, 'id'>) => string;
+  remove: (id: string) => void;
+}
+
+export const useElicitationStore = create<ElicitationStore>()((set) => ({
+  requests: [],
+
+  enqueue: (request) => {
+    const id = generateId();
+    set((state) => ({
+      requests: [...state.requests, { ...request, id }],
+    }));
+    return id;
+  },
+
+  remove: (id) => {
+    set((state) => ({
+      requests: state.requests.filter((request) => request.id !== id),
+    }));
+  },
+}));
+
+// Tool Approval Store (risky tool calls waiting for the user's confirmation)
+interface ToolApprovalStore {
+  requests: PendingToolApproval[];
+  enqueue: (request: Omit<PendingToolApproval, 'id'>) => string;
+  remove: (id: string) => void;
+}
+
+export const useToolApprovalStore = create<ToolApprovalStore>()((set) => ({
+  requests: [],
+
+  enqueue: (request) => {
+    const id = generateId();
+    set((state) => ({
+      requests: [...state.requests, { ...request, id }],
+    }));
+    return id;
+  },
+
+  remove: (id) => {
+    set((state) => ({
+      requests: state.requests.filter((request) => request.id !== id),
+    }));
+  },
+}));
+
+// Secret Store (values referenced from server headers as ${secret:NAME}).
+// Kept apart from the server list so configs only ever contain references.
+interface SecretStore {
+  secrets: Record<string, string>;
+  setSecret: (name: string, value: string) => void;
+  removeSecret: (name: string) => void;
+}
+
+export const useSecretStore = create<SecretStore>()(persist(
+  (set) => ({
+    secrets: {},
+
+    setSecret: (name, value) => {
+      set((state) => ({
+        secrets: { ...state.secrets, [name]: value },
+      }));
+    },
+
+    removeSecret: (name) => {
+      set((state) => {
+        const { [name]: _removed, ...secrets } = state.secrets;
+        return { secrets };
+      });
+    },
+  }),
+  {
+    name: 'mcp-secrets',
+  }
+));
+
+// Server Log Store (notifications/message entries per server, kept in memory only)
+const MAX_LOG_ENTRIES = 1000;
+
+interface ServerLogStore {
+  logs: Record<string, ServerLogEntry[]>;
+  addLog: (serverId: string, entry: Omit<ServerLogEntry, 'id' | 'timestamp'>) => void;
+  clearLogs: (serverId: string) => void;
+}
+
+export const useServerLogStore = create<ServerLogStore>()((set) => ({
+  logs: {},
+
+  addLog: (serverId, entry) => {
+    set((state) => ({
+      logs: {
+        ...state.logs,
+        [serverId]: [
+          ...(state.logs[serverId] || []),
+          { ...entry, id: generateId(), timestamp: new Date() },
+        ].slice(-MAX_LOG_ENTRIES),
+      },
+    }));
+  },
+
+  clearLogs: (serverId) => {
+    set((state) => ({
+      logs: { ...state.logs, [serverId]: [] },
+    }));
+  },
+}));
+
+// Server Health Store (background ping results per server, kept in memory only)
+const MAX_HEALTH_SAMPLES = 60;
+
+interface ServerHealthStore {
+  samples: Record<string, HealthSample[]>;
+  consecutiveMisses: Record<string, number>;
+  recordSample: (serverId: string, sample: Omit<HealthSample, 'timestamp'>) => void;
+  clearHealth: (serverId: string) => void;
+}
+
+export const useServerHealthStore = create<ServerHealthStore>()((set) => ({
+  samples: {},
+  consecutiveMisses: {},
+
+  recordSample: (serverId, sample) => {
+    set((state) => ({
+      samples: {
+        ...state.samples,
+        [serverId]: [
+          ...(state.samples[serverId] || []),
+          { ...sample, timestamp: new Date() },
+        ].slice(-MAX_HEALTH_SAMPLES),
+      },
+      consecutiveMisses: {
+        ...state.consecutiveMisses,
+        [serverId]: sample.latency === null ? (state.consecutiveMisses[serverId] || 0) + 1 : 0,
+      },
+    }));
+  },
+
+  clearHealth: (serverId) => {
+    set((state) => ({
+      samples: { ...state.samples, [serverId]: [] },
+      consecutiveMisses: { ...state.consecutiveMisses, [serverId]: 0 },
+    }));
+  },
+}));
+
 // Chat Store
 interface ChatStore {
   sessions: ChatSession[];
   currentSessionId: string | null;
   isStreaming: boolean;
+  pendingAttachments: ChatAttachment[];
   createSession: (title?: string) => string;
   deleteSession: (id: string) => void;
   setCurrentSession: (id: string) => void;
@@ -151,6 +318,10 @@ interface ChatStore {
   removeMessagesFromIndex: (sessionId: string, fromIndex: number) => void;
   clearSession: (sessionId: string) => void;
   setStreaming: (streaming: boolean) => void;
+  addAttachment: (attachment: Omit<ChatAttachment, 'id'>) => void;
+  updateAttachment: (id: string, updates: Partial<ChatAttachment>) => void;
+  removeAttachment: (id: string) => void;
+  clearAttachments: () => void;
   getCurrentSession: () => ChatSession | null;
 }
 
@@ -159,6 +330,7 @@ export const useChatStore = create<ChatStore>()(persist(
     sessions: [],
     currentSessionId: null,
     isStreaming: false,
+    pendingAttachments: [],
     
     createSession: (title = '新对话') => {
       const newSession: ChatSession = {
@@ -265,6 +437,37 @@ export const useChatStore = create<ChatStore>()(persist(
     setStreaming: (streaming) => {
       set({ isStreaming: streaming });
     },
+
+    addAttachment: (attachment) => {
+      set((state) => ({
+        pendingAttachments: [
+          // Re-attaching the same resource replaces the older contents
+          ...state.pendingAttachments.filter((a) => !(a.serverId === attachment.serverId && a.uri === attachment.uri)),
+          { ...attachment, id: generateId() },
+        ],
+      }));
+    },
+
+    updateAttachment: (id, updates) => {
+      set((state) => ({
+        pendingAttachments: state.pendingAttachments.map((a) =>
+          a.id === id ? { ...a, ...updates } : a
+        ),
+      }));
+    },
+
+    removeAttachment: (id) => {
+      set((state) => ({
+        pendingAttachments: state.pendingAttachments.filter((a) => a.id !== id),
+      }));
+    },
+
+    // Pinned attachments stay attached across messages
+    clearAttachments: () => {
+      set((state) => ({
+        pendingAttachments: state.pendingAttachments.filter((a) => a.pinned),
+      }));
+    },
     
     getCurrentSession: () => {
       const state = get();
@@ -350,6 +553,10 @@ export const useSettingsStore = create<SettingsStore>()(persist(
 
 // UI Store
 interface UIStore extends UIState {
+  // Resource the explorer should open next, e.g. from a resource_link in a tool result
+  resourceToOpen: { serverId: string; uri: string; name?: string } | null;
+  openResource: (target: { serverId: string; uri: string; name?: string }) => void;
+  clearResourceToOpen: () => void;
   setTheme: (theme: UIState['theme']) => void;
   toggleSidebar: () => void;
   setActiveTab: (tab: UIState['activeTab']) => void;
@@ -366,6 +573,15 @@ export const useUIStore = create<UIStore>()(persist(
     activeTab: 'chat',
     isLoading: false,
     notifications: [],
+    resourceToOpen: null,
+
+    openResource: (target) => {
+      set({ resourceToOpen: target, activeTab: 'resources' });
+    },
+
+    clearResourceToOpen: () => {
+      set({ resourceToOpen: null });
+    },
     
     setTheme: (theme) => {
       set({ theme });
@@ -4,17 +4,73 @@ export interface MCPServer {
   name: string;
   url: string;
   type: 'streamable-http' | 'sse';
-  status: 'connected' | 'disconnected' | 'connecting' | 'error';
+  status: 'connected' | 'disconnected' | 'connecting' | 'reconnecting' | 'error';
+  // Current attempt while status is 'reconnecting'
+  reconnectAttempt?: number;
   description?: string;
   capabilities?: string[];
   lastConnected?: Date;
   disabled?: boolean;
+  roots?: MCPRoot[];
+  // Minimum level requested via logging/setLevel, re-applied on every connect
+  logLevel?: MCPLogLevel;
+  // Set when the server answered 401 and the user has to sign in through OAuth
+  authRequired?: boolean;
+  // From the initialize result of the latest connection
+  protocolVersion?: string;
+  serverInfo?: MCPImplementation;
+  serverCapabilities?: Record<string, any>;
+  instructions?: string;
+  // Set to false to leave the server's instructions out of the chat system prompt
+  includeInstructions?: boolean;
   config?: {
     headers?: Record<string, string>;
     endpoint?: string;
+    // Reconnect attempts after the connection drops, and the base backoff delay in ms
+    retryAttempts?: number;
+    retryDelay?: number;
   };
 }
 
+// Name and version a server reports in initialize
+export interface MCPImplementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+// Row of the server header editor. Secret rows are moved into the secret store
+// on save and replaced by a ${secret:NAME} reference.
+export interface MCPHeaderEntry {
+  name: string;
+  value: string;
+  secret: boolean;
+}
+
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+// Entry received through notifications/message
+export interface ServerLogEntry {
+  id: string;
+  timestamp: Date;
+  level: MCPLogLevel;
+  logger?: string;
+  data: unknown;
+}
+
+// Result of one background ping; latency is null when the ping failed
+export interface HealthSample {
+  timestamp: Date;
+  latency: number | null;
+  error?: string;
+}
+
+// Filesystem root exposed to a server through roots/list
+export interface MCPRoot {
+  uri: string;
+  name?: string;
+}
+
 export interface MCPServerConfig {
   name: string;
   url: string;
@@ -24,7 +80,48 @@ export interface MCPServerConfig {
   retryAttempts?: number;
 }
 
+// Resource contents as returned by resources/read
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
 // Chat Types
+export interface ChatAttachment {
+  id: string;
+  serverId: string;
+  serverName: string;
+  uri: string;
+  name: string;
+  contents: MCPResourceContents[];
+  // Pinned attachments are sent with every message and refreshed on resource updates
+  pinned?: boolean;
+}
+
+// Behaviour hints a server declares for a tool. They are advisory, and per the
+// spec an unannotated tool is assumed to be destructive and open-world.
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+// Outcome of one MCP tools/call, kept on the chat message that reports it
+export interface ChatToolResult {
+  toolCallId: string;
+  // Name as exposed to the LLM, "<server>__<tool>"
+  toolName?: string;
+  // CallToolResult from the server, or the error text when the call failed
+  result: any;
+  error?: string;
+  // Why structuredContent does not match the tool's outputSchema
+  validationError?: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -35,6 +132,8 @@ export interface ChatMessage {
     tokens?: number;
     cost?: number;
     mcpServer?: string;
+    attachments?: ChatAttachment[];
+    toolResults?: ChatToolResult[];
   };
 }
 
@@ -96,7 +195,7 @@ export interface StreamResponse {
 export interface UIState {
   theme: 'light' | 'dark' | 'system';
   sidebarCollapsed: boolean;
-  activeTab: 'chat' | 'servers' | 'settings';
+  activeTab: 'chat' | 'servers' | 'resources' | 'settings';
   isLoading: boolean;
   notifications: Notification[];
 }
@@ -122,6 +221,13 @@ export interface AppSettings {
   openaiBaseUrl?: string;
   openaiApiKey?: string;
   openaiModelName?: string;
+  // The model accepts image input; tool result images are then sent as image parts
+  openaiVision?: boolean;
   ocigenaiModelName?: string;
   llmProviders: LLMProvider[];
+  // Background ping interval in seconds, and consecutive misses before a server is marked as error
+  healthCheckInterval?: number;
+  healthCheckMaxMisses?: number;
+  // Ask before running tool calls that may be destructive or reach the outside world (default on)
+  confirmRiskyToolCalls?: boolean;
 }
\ No newline at end of file
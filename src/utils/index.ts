@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { MCPServer } from '../types';
 
 // Utility function for merging Tailwind classes
 export function cn(...inputs: ClassValue[]) {
@@ -52,6 +53,13 @@ export function isValidUrl(url: string): boolean {
   }
 }
 
+// Resolve the MCP endpoint of a server: its own URL, optionally overridden
+// by config.endpoint (absolute, or a path relative to the server URL)
+export function getServerEndpoint(server: MCPServer): URL {
+  const base = new URL(server.url, window.location.origin);
+  return server.config?.endpoint ? new URL(server.config.endpoint, base) : base;
+}
+
 // Validate API key format
 export function isValidApiKey(apiKey: string, provider: 'openai' | 'oracle'): boolean {
   if (!apiKey || apiKey.trim().length === 0) {
@@ -68,6 +76,16 @@ export function isValidApiKey(apiKey: string, provider: 'openai' | 'oracle'): bo
   }
 }
 
+// Trigger a browser download of generated text content
+export function downloadFile(content: string, filename: string, mimeType = 'text/plain'): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // Debounce function
 export function debounce<T extends (...args: any[]) => any>(
   func: T,